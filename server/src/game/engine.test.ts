@@ -0,0 +1,688 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as engine from './engine';
+import { BUILT_IN_WORD_PACKS } from './wordPairs';
+import { GameState, PlayerRole, RoomSettings, WordPair } from '../types/game';
+
+const WORD_PAIRS: WordPair[] = [{ words: ['Cat', 'Dog'] }];
+
+/**
+ * Start a game with the given roles, dealt in seat order so tests don't depend on the shuffle.
+ * Players are called p0, p1, ... and speak in that order.
+ */
+function createGame(roles: PlayerRole[], settings: Partial<RoomSettings> = {}): GameState {
+  let state = engine.createGameState();
+  roles.forEach((_, i) => {
+    state = engine.addPlayer(state, `p${i}`, `Player ${i}`);
+  });
+  state = engine.startGame({ ...state, settings: { ...state.settings, ...settings } }, WORD_PAIRS);
+
+  return {
+    ...state,
+    majorityWord: 'Cat',
+    undercoverWord: 'Dog',
+    speakingOrder: roles.map((_, i) => `p${i}`),
+    players: state.players
+      .map(player => {
+        const role = roles[Number(player.id.slice(1))];
+        return { ...player, role, word: role === 'mrwhite' ? '' : role === 'undercover' ? 'Dog' : 'Cat' };
+      })
+      .sort((a, b) => a.id.localeCompare(b.id)),
+  };
+}
+
+// Let every player whose turn is left describe their word
+function describeAll(state: GameState): GameState {
+  let speakerId = engine.getCurrentSpeakerId(state);
+  while (speakerId) {
+    state = engine.submitDescription(state, speakerId, `A clue from ${speakerId}`);
+    speakerId = engine.getCurrentSpeakerId(state);
+  }
+  return state;
+}
+
+function vote(state: GameState, votes: [string, string][]): GameState {
+  return votes.reduce((current, [voterId, targetId]) => engine.submitVote(current, voterId, targetId), state);
+}
+
+describe('starting a game', () => {
+  it('needs enough players', () => {
+    let state = engine.createGameState();
+    ['p0', 'p1', 'p2'].forEach(id => {
+      state = engine.addPlayer(state, id, id);
+    });
+
+    expect(() => engine.startGame(state, WORD_PAIRS)).toThrow(engine.GameEngineError);
+  });
+
+  it('deals the roles of the distribution and the matching words', () => {
+    let state = engine.createGameState();
+    ['p0', 'p1', 'p2', 'p3', 'p4'].forEach(id => {
+      state = engine.addPlayer(state, id, id);
+    });
+    state = engine.startGame(state, WORD_PAIRS);
+
+    const roles = state.players.map(p => p.role).sort();
+    expect(roles).toEqual(['civilian', 'civilian', 'civilian', 'mrwhite', 'undercover']);
+    state.players.forEach(player => {
+      const expectedWord = { civilian: 'Cat', undercover: 'Dog', mrwhite: '' }[player.role as string];
+      expect(player.word).toBe(expectedWord);
+    });
+    expect(state.phase).toBe('wordReveal');
+    expect(state.players.find(p => p.id === state.speakingOrder?.[0])?.role).not.toBe('mrwhite');
+  });
+});
+
+describe('dealing words', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const startWith = (swapWordSides: boolean) => {
+    let state = engine.createGameState();
+    ['p0', 'p1', 'p2', 'p3'].forEach(id => {
+      state = engine.addPlayer(state, id, id);
+    });
+    return engine.startGame({ ...state, settings: { ...state.settings, swapWordSides } }, WORD_PAIRS);
+  };
+
+  it('gives the first word of the pair to the majority', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.1);
+
+    expect(startWith(false)).toMatchObject({ majorityWord: 'Cat', undercoverWord: 'Dog' });
+  });
+
+  it('may swap the words of the pair if the room wants it', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.1);
+
+    expect(startWith(true)).toMatchObject({ majorityWord: 'Dog', undercoverWord: 'Cat' });
+  });
+});
+
+describe('a round', () => {
+  it('lets players describe in turn only', () => {
+    const state = createGame(['civilian', 'civilian', 'civilian', 'undercover']);
+
+    expect(() => engine.submitDescription(state, 'p1', 'A pet')).toThrow("It's not your turn");
+    expect(() => engine.submitDescription(state, 'p0', '  ')).toThrow(engine.GameEngineError);
+    expect(engine.getCurrentSpeakerId(engine.submitDescription(state, 'p0', 'A pet'))).toBe('p1');
+  });
+
+  it('eliminates the most voted player and ends the game when one side has won', () => {
+    let state = engine.startVoting(describeAll(createGame(['civilian', 'civilian', 'civilian', 'undercover'])));
+    expect(() => engine.submitVote(state, 'p0', 'p0')).toThrow('Invalid vote target');
+
+    state = vote(state, [['p0', 'p3'], ['p1', 'p3'], ['p2', 'p3'], ['p3', 'p0']]);
+    expect(state.phase).toBe('results');
+    expect(state.lastEliminatedId).toBe('p3');
+
+    state = engine.continueGame(state);
+    expect(state.phase).toBe('gameEnd');
+    expect(state.winner).toBe('civilian');
+    expect(state.players.map(p => p.score)).toEqual([2, 2, 2, 0]);
+  });
+
+  it('waits for the guess of a voted-out Mr. White, who wins with the right word', () => {
+    let state = engine.startVoting(describeAll(createGame(['civilian', 'civilian', 'undercover', 'civilian', 'mrwhite'])));
+    state = vote(state, [['p0', 'p4'], ['p1', 'p4'], ['p2', 'p4'], ['p3', 'p4'], ['p4', 'p0']]);
+
+    expect(() => engine.continueGame(state)).toThrow('Waiting for Mr. White to guess');
+    expect(() => engine.submitMrWhiteGuess(state, 'p0', 'cat')).toThrow(engine.GameEngineError);
+
+    const guessed = engine.submitMrWhiteGuess(state, 'p4', ' cat ');
+    expect(guessed.phase).toBe('gameEnd');
+    expect(guessed.winner).toBe('mrwhite');
+  });
+});
+
+describe('checkGameEnd', () => {
+  const players = (...roles: PlayerRole[]) => roles.map((role, i) => ({ id: `p${i}`, name: `p${i}`, role }));
+
+  it('lets the civilians win once every infiltrator is out', () => {
+    expect(engine.checkGameEnd(players('civilian', 'civilian'))).toBe('civilian');
+  });
+
+  it('lets the infiltrators win once one civilian is left', () => {
+    expect(engine.checkGameEnd(players('civilian', 'undercover'))).toBe('undercover');
+    expect(engine.checkGameEnd(players('civilian', 'mrwhite'))).toBe('mrwhite');
+    expect(engine.checkGameEnd(players('civilian', 'undercover', 'mrwhite'))).toBe('infiltrators');
+  });
+
+  it('goes on otherwise', () => {
+    expect(engine.checkGameEnd(players('civilian', 'civilian', 'undercover'))).toBeNull();
+  });
+});
+
+describe('resetGame', () => {
+  it('returns to setup with the players and their scores', () => {
+    let state = engine.startVoting(describeAll(createGame(['civilian', 'civilian', 'civilian', 'undercover'])));
+    state = engine.continueGame(vote(state, [['p0', 'p3'], ['p1', 'p3'], ['p2', 'p3'], ['p3', 'p0']]));
+
+    const reset = engine.resetGame(state);
+    expect(reset.phase).toBe('setup');
+    expect(reset.currentRound).toBe(0);
+    expect(reset.players).toEqual([
+      { id: 'p0', name: 'Player 0', score: 2 },
+      { id: 'p1', name: 'Player 1', score: 2 },
+      { id: 'p2', name: 'Player 2', score: 2 },
+      { id: 'p3', name: 'Player 3', score: 0 },
+    ]);
+  });
+});
+
+describe('timers', () => {
+  const timers = { speakerSeconds: 30, votingSeconds: 60 };
+
+  it('are off by default', () => {
+    const state = engine.updateTimer(createGame(['civilian', 'civilian', 'civilian', 'undercover']), 0);
+
+    expect(state.timer).toBeUndefined();
+  });
+
+  it('skip a speaker whose time ran out and time the next one', () => {
+    let state = engine.updateTimer(createGame(['civilian', 'civilian', 'civilian', 'undercover'], { timers }), 0);
+    expect(state.timer).toEqual({ kind: 'speaker', playerId: 'p0', endsAt: 30000, duration: 30000 });
+    expect(engine.updateTimer(state, 5000)).toBe(state);
+    expect(engine.expireTimer(state, 29999)).toBe(state);
+
+    state = engine.updateTimer(engine.expireTimer(state, 30000), 30000);
+    expect(state.players.find(p => p.id === 'p0')?.turnSkipped).toBe(true);
+    expect(state.timer).toMatchObject({ kind: 'speaker', playerId: 'p1', endsAt: 60000 });
+  });
+
+  it('start the vote once everyone has spoken', () => {
+    const state = engine.updateTimer(describeAll(createGame(['civilian', 'civilian', 'civilian', 'undercover'], { timers })), 0);
+
+    expect(state.phase).toBe('voting');
+    expect(state.timer).toMatchObject({ kind: 'voting', endsAt: 60000 });
+  });
+
+  it('close the vote with the votes cast so far', () => {
+    let state = engine.updateTimer(engine.startVoting(createGame(['civilian', 'civilian', 'civilian', 'undercover'], { timers })), 0);
+    state = engine.expireTimer(engine.submitVote(state, 'p0', 'p3'), 60000);
+
+    expect(state.phase).toBe('results');
+    expect(state.lastEliminatedId).toBe('p3');
+  });
+
+  it('eliminate nobody if nobody voted in time', () => {
+    const state = engine.updateTimer(engine.startVoting(createGame(['civilian', 'civilian', 'civilian', 'undercover'], { timers })), 0);
+    const expired = engine.expireTimer(state, 60000);
+
+    expect(expired.phase).toBe('results');
+    expect(expired.lastEliminatedId).toBeUndefined();
+  });
+});
+
+describe('updateSettings', () => {
+  const createSetup = () => engine.addPlayer(engine.createGameState(), 'p0', 'Player 0');
+  const withSettings = (settings: Partial<RoomSettings>): RoomSettings => ({ ...engine.DEFAULT_SETTINGS, ...settings });
+
+  it('stores valid settings', () => {
+    const settings = withSettings({ timers: { speakerSeconds: 30, votingSeconds: 60 }, maxPlayers: 8, wordPackIds: ['de', 'de'] });
+
+    expect(engine.updateSettings(createSetup(), settings, BUILT_IN_WORD_PACKS).settings).toEqual({ ...settings, wordPackIds: ['de'] });
+  });
+
+  it('keeps only the known fields', () => {
+    const settings = { ...engine.DEFAULT_SETTINGS, isAdmin: true } as RoomSettings;
+
+    expect(engine.updateSettings(createSetup(), settings, BUILT_IN_WORD_PACKS).settings).toEqual(engine.DEFAULT_SETTINGS);
+  });
+
+  it.each([
+    ['timer', { timers: { speakerSeconds: 1.5, votingSeconds: 0 } }, 'Invalid timer settings'],
+    ['timer', { timers: { speakerSeconds: 0, votingSeconds: engine.MAX_TIMER_SECONDS + 1 } }, 'Invalid timer settings'],
+    ['player limit', { maxPlayers: engine.MIN_PLAYERS - 1 }, 'Invalid maximum number of players'],
+    ['word pack', { wordPackIds: ['custom-1'] }, 'Select at least one word pack'],
+    ['word pack', { wordPackIds: [] }, 'Select at least one word pack'],
+    ['score', { scoring: { civilian: -1, undercover: 10, mrwhite: 6 } }, 'Invalid scoring values'],
+    ['tie-break rule', { tieBreakRule: 'coinFlip' }, 'Unknown tie-break rule'],
+    ['description mode', { descriptionMode: 'sung' }, 'Unknown description mode'],
+    ['guess strictness', { guessStrictness: 'picky' }, 'Unknown guess strictness'],
+    ['early guess setting', { mrWhiteCanGuessEarly: 'yes' as unknown as boolean }, 'Invalid early guess setting'],
+    ['word filter', { wordFilter: { categories: [], difficulties: ['impossible'], maxAgeRating: 'all' } }, 'Invalid word filter'],
+    ['word filter', { wordFilter: { categories: [], difficulties: [], maxAgeRating: 'kids' } }, 'Invalid word filter'],
+  ] as [string, Partial<RoomSettings>, string][])('rejects an invalid %s', (_, settings, message) => {
+    expect(() => engine.updateSettings(createSetup(), withSettings(settings), BUILT_IN_WORD_PACKS)).toThrow(message);
+  });
+
+  it('only allows changes before the game starts', () => {
+    const state = createGame(['civilian', 'civilian', 'civilian', 'undercover']);
+
+    expect(() => engine.updateSettings(state, engine.DEFAULT_SETTINGS, BUILT_IN_WORD_PACKS)).toThrow(engine.GameEngineError);
+  });
+
+  it('awards the points of the room to the winners', () => {
+    const scoring = { civilian: 5, undercover: 10, mrwhite: 6 };
+    let state = engine.startVoting(describeAll(createGame(['civilian', 'civilian', 'civilian', 'undercover'], { scoring })));
+    state = engine.continueGame(vote(state, [['p0', 'p3'], ['p1', 'p3'], ['p2', 'p3'], ['p3', 'p0']]));
+
+    expect(state.players.map(p => p.score)).toEqual([5, 5, 5, 0]);
+  });
+});
+
+// p0 and p1 get two votes each
+const TIED_VOTES: [string, string][] = [['p0', 'p1'], ['p1', 'p0'], ['p2', 'p1'], ['p3', 'p0']];
+
+describe('tie-breaks', () => {
+  const startTiedVote = (tieBreakRule: RoomSettings['tieBreakRule']) =>
+    vote(engine.startVoting(describeAll(createGame(['civilian', 'civilian', 'civilian', 'undercover'], { tieBreakRule }))), TIED_VOTES);
+
+  it('eliminates one of the tied players at random', () => {
+    const state = startTiedVote('random');
+
+    expect(state.phase).toBe('results');
+    expect(['p0', 'p1']).toContain(state.lastEliminatedId);
+    expect(state.tieBreak?.rule).toBe('random');
+    expect(state.tieBreak?.tiedPlayerIds.sort()).toEqual(['p0', 'p1']);
+  });
+
+  it('eliminates nobody', () => {
+    const state = startTiedVote('noElimination');
+
+    expect(state.phase).toBe('results');
+    expect(state.lastEliminatedId).toBeUndefined();
+    expect(engine.continueGame(state).players.every(p => !p.isEliminated)).toBe(true);
+  });
+
+  it('holds a revote between the tied players only', () => {
+    const state = startTiedVote('revote');
+
+    expect(state.phase).toBe('voting');
+    expect(state.votingResults).toEqual({});
+    expect(engine.getVoteCandidateIds(state)).toEqual(['p0', 'p1']);
+    expect(() => engine.submitVote(state, 'p0', 'p2')).toThrow(engine.GameEngineError);
+
+    const revoted = vote(state, [['p0', 'p1'], ['p1', 'p0'], ['p2', 'p1'], ['p3', 'p1']]);
+    expect(revoted.phase).toBe('results');
+    expect(revoted.lastEliminatedId).toBe('p1');
+  });
+
+  it('decides a tied revote at random', () => {
+    const state = vote(startTiedVote('revote'), TIED_VOTES);
+
+    expect(state.phase).toBe('results');
+    expect(['p0', 'p1']).toContain(state.lastEliminatedId);
+    expect(state.tieBreak?.decidedAtRandom).toBe(true);
+  });
+
+  it('lets only the tied players describe again before the revote', () => {
+    const state = startTiedVote('extraDescription');
+
+    expect(state.phase).toBe('wordReveal');
+    expect(engine.getCurrentSpeakerId(state)).toBe('p0');
+
+    const described = describeAll(state);
+    expect(described.players.filter(p => p.submittedDescription).length).toBe(4);
+    expect(engine.getVoteCandidateIds(engine.startVoting(described))).toEqual(['p0', 'p1']);
+  });
+
+  it('forgets the tie once the round is over', () => {
+    const state = engine.continueGame(vote(startTiedVote('revote'), [['p0', 'p1'], ['p1', 'p0'], ['p2', 'p1'], ['p3', 'p1']]));
+
+    expect(state.tieBreak).toBeUndefined();
+  });
+});
+
+describe('custom word packs', () => {
+  const PACK = { id: '', name: 'Animals', language: 'en', pairs: WORD_PAIRS };
+
+  it('are added to the room and selected', () => {
+    const state = engine.saveWordPack(engine.createGameState(), PACK, 'custom-1');
+
+    expect(state.customWordPacks).toEqual([{ ...PACK, id: 'custom-1' }]);
+    expect(state.settings.wordPackIds).toEqual([...engine.DEFAULT_SETTINGS.wordPackIds, 'custom-1']);
+  });
+
+  it('are updated in place', () => {
+    let state = engine.saveWordPack(engine.createGameState(), PACK, 'custom-1');
+    state = engine.saveWordPack(state, { ...PACK, id: 'custom-1', name: 'Pets' }, 'custom-2');
+
+    expect(state.customWordPacks.map(pack => [pack.id, pack.name])).toEqual([['custom-1', 'Pets']]);
+  });
+
+  it('are limited per room', () => {
+    let state = engine.createGameState();
+    for (let i = 0; i < engine.MAX_CUSTOM_WORD_PACKS; i++) {
+      state = engine.saveWordPack(state, PACK, `custom-${i}`);
+    }
+
+    expect(() => engine.saveWordPack(state, PACK, 'one-too-many')).toThrow(engine.GameEngineError);
+  });
+
+  it('fall back to the default pack when the last selected one is deleted', () => {
+    let state = engine.saveWordPack(engine.createGameState(), PACK, 'custom-1');
+    state = engine.deleteWordPack({ ...state, settings: { ...state.settings, wordPackIds: ['custom-1'] } }, 'custom-1');
+
+    expect(state.customWordPacks).toEqual([]);
+    expect(state.settings.wordPackIds).toEqual(engine.DEFAULT_SETTINGS.wordPackIds);
+    expect(() => engine.deleteWordPack(state, 'custom-1')).toThrow('Word pack not found');
+  });
+});
+
+describe('spoken descriptions', () => {
+  const createSpokenGame = () => createGame(['civilian', 'civilian', 'civilian', 'undercover'], { descriptionMode: 'spoken' });
+
+  it('let the speaker end their own turn', () => {
+    const state = engine.finishSpeaking(createSpokenGame(), 'p0');
+
+    expect(state.players.find(p => p.id === 'p0')?.finishedSpeaking).toBe(true);
+    expect(engine.getCurrentSpeakerId(state)).toBe('p1');
+    expect(() => engine.finishSpeaking(state, 'p2')).toThrow("It's not your turn");
+  });
+
+  it('still allow typing a description', () => {
+    expect(engine.getCurrentSpeakerId(engine.submitDescription(createSpokenGame(), 'p0', 'A pet'))).toBe('p1');
+  });
+
+  it('are only available in spoken mode', () => {
+    const state = createGame(['civilian', 'civilian', 'civilian', 'undercover']);
+
+    expect(() => engine.finishSpeaking(state, 'p0')).toThrow('Every player has to type a description in this room');
+  });
+
+  it('start a new turn for everyone in the next round', () => {
+    let state = createSpokenGame();
+    ['p0', 'p1', 'p2', 'p3'].forEach(id => {
+      state = engine.finishSpeaking(state, id);
+    });
+    state = engine.continueGame(vote(engine.startVoting(state), [['p0', 'p1'], ['p1', 'p0'], ['p2', 'p1'], ['p3', 'p1']]));
+
+    expect(state.players.some(p => p.finishedSpeaking)).toBe(false);
+  });
+});
+
+describe('description history', () => {
+  it('keeps the descriptions of every round', () => {
+    let state = describeAll(createGame(['civilian', 'civilian', 'civilian', 'civilian', 'undercover']));
+    state = engine.continueGame(vote(engine.startVoting(state), [['p0', 'p1'], ['p1', 'p0'], ['p2', 'p1'], ['p3', 'p1'], ['p4', 'p1']]));
+    state = describeAll(engine.startGame(state, WORD_PAIRS));
+
+    expect(state.descriptionHistory.map(entry => [entry.round, entry.playerId])).toEqual([
+      [1, 'p0'], [1, 'p1'], [1, 'p2'], [1, 'p3'], [1, 'p4'],
+      ...state.speakingOrder!.map(id => [2, id]),
+    ]);
+    expect(state.descriptionHistory[0].description).toBe('A clue from p0');
+  });
+
+  it('drops the descriptions of rerolled words', () => {
+    const state = engine.submitDescription(createGame(['civilian', 'civilian', 'civilian', 'undercover']), 'p0', 'A pet');
+
+    expect(engine.rerollWords(state, WORD_PAIRS).descriptionHistory).toEqual([]);
+  });
+});
+
+describe('description checks', () => {
+  it('reject a description with a secret word', () => {
+    const state = createGame(['civilian', 'civilian', 'civilian', 'undercover']);
+
+    expect(() => engine.submitDescription(state, 'p0', 'Cats purr')).toThrow(
+      expect.objectContaining({ code: 'descriptionContainsSecretWord' })
+    );
+  });
+
+  it('reject a description with an alias of the word', () => {
+    const state = { ...createGame(['undercover', 'civilian', 'civilian', 'civilian']), undercoverWordAliases: ['Puppy'] };
+
+    expect(() => engine.submitDescription(state, 'p0', 'Like a puppy')).toThrow("Your description can't contain your word");
+  });
+
+  it('do not tell a player the word of the other side', () => {
+    const state = { ...createGame(['undercover', 'civilian', 'civilian', 'civilian']), majorityWordAliases: ['Kitty'] };
+
+    expect(engine.submitDescription(state, 'p0', 'Chases cats and kitties').players[0].submittedDescription).toBe('Chases cats and kitties');
+  });
+
+  it('do not tell Mr. White that they found a secret word', () => {
+    const state = createGame(['mrwhite', 'civilian', 'civilian', 'civilian', 'undercover']);
+
+    expect(engine.submitDescription(state, 'p0', 'Maybe a cat').players[0].submittedDescription).toBe('Maybe a cat');
+  });
+});
+
+describe('judging the guess of Mr. White', () => {
+  // Mr. White p4 has just been voted out and guesses the majority word "Elephant"
+  const createGuessing = (settings: Partial<RoomSettings>): GameState => {
+    const state = engine.startVoting(describeAll(createGame(['civilian', 'civilian', 'undercover', 'civilian', 'mrwhite'], settings)));
+    return { ...vote(state, [['p0', 'p4'], ['p1', 'p4'], ['p2', 'p4'], ['p3', 'p4'], ['p4', 'p0']]), majorityWord: 'Elephant' };
+  };
+
+  it('lets Mr. White win with a guess close enough for the room', () => {
+    const state = engine.submitMrWhiteGuess(createGuessing({ guessStrictness: 'normal' }), 'p4', 'elephnt');
+
+    expect(state.mrWhiteGuessVerdict).toBe('correct');
+    expect(state.winner).toBe('mrwhite');
+  });
+
+  it('counts a close guess as wrong unless the host reviews them', () => {
+    const state = engine.submitMrWhiteGuess(createGuessing({ guessStrictness: 'strict' }), 'p4', 'elephnt');
+
+    expect(state.mrWhiteGuessVerdict).toBe('wrong');
+    expect(engine.continueGame(state).phase).toBe('discussion');
+  });
+
+  // A close guess of p4, judged by the host p0
+  const createCloseGuess = (): GameState => engine.assignGuessReviewer(
+    engine.submitMrWhiteGuess(createGuessing({ guessStrictness: 'strict', hostReviewsCloseGuesses: true }), 'p4', 'elephnt'),
+    'p0'
+  );
+
+  it('lets the host judge a close guess', () => {
+    const state = createCloseGuess();
+    expect(state.mrWhiteGuessVerdict).toBe('pendingReview');
+    expect(state.mrWhiteGuessReviewerId).toBe('p0');
+    expect(() => engine.continueGame(state)).toThrow("Judge Mr. White's guess first");
+    expect(() => engine.submitMrWhiteGuess(state, 'p4', 'elephant')).toThrow('The last guess is still being judged');
+
+    const accepted = engine.reviewMrWhiteGuess(state, 'p0', true);
+    expect(accepted.mrWhiteGuessVerdict).toBe('correct');
+    expect(accepted.winner).toBe('mrwhite');
+
+    const rejected = engine.reviewMrWhiteGuess(state, 'p0', false);
+    expect(rejected.mrWhiteGuessVerdict).toBe('wrong');
+    expect(rejected.mrWhiteGuessReviewerId).toBeUndefined();
+    expect(rejected.eventLog.at(-1)).toEqual({ type: 'guessReviewed', round: 1, playerId: 'p4', reviewerId: 'p0', accepted: false });
+    expect(engine.continueGame(rejected).phase).toBe('discussion');
+  });
+
+  it('only lets the picked player judge', () => {
+    const state = createCloseGuess();
+
+    expect(() => engine.reviewMrWhiteGuess(state, 'p4', true)).toThrow("Mr. White can't judge their own guess");
+    expect(() => engine.reviewMrWhiteGuess(state, 'p1', true)).toThrow('Another player is judging this guess');
+  });
+
+  it('has nothing to judge without a close guess', () => {
+    expect(() => engine.reviewMrWhiteGuess(createGuessing({}), 'p0', true)).toThrow('There is no guess to judge');
+  });
+});
+
+describe('assignGuessReviewer', () => {
+  const createPending = (): GameState => ({
+    ...createGame(['civilian', 'civilian', 'undercover', 'civilian', 'mrwhite']),
+    mrWhiteGuess: 'cats',
+    mrWhiteGuessVerdict: 'pendingReview',
+    mrWhiteGuesserId: 'p4',
+  });
+
+  it('picks the host', () => {
+    expect(engine.assignGuessReviewer(createPending(), 'p2').mrWhiteGuessReviewerId).toBe('p2');
+  });
+
+  it('picks another player if the host made the guess', () => {
+    expect(engine.assignGuessReviewer(createPending(), 'p4').mrWhiteGuessReviewerId).toBe('p0');
+  });
+
+  it('skips players who are away', () => {
+    const state = createPending();
+    const players = state.players.map(p => (p.id === 'p0' || p.id === 'p2' ? { ...p, isAway: true } : p));
+
+    expect(engine.assignGuessReviewer({ ...state, players }, 'p2').mrWhiteGuessReviewerId).toBe('p1');
+  });
+
+  it('picks nobody without a close guess', () => {
+    const state = engine.assignGuessReviewer(createPending(), 'p0');
+
+    expect(engine.assignGuessReviewer({ ...state, mrWhiteGuessVerdict: 'wrong' }, 'p0').mrWhiteGuessReviewerId).toBeUndefined();
+  });
+});
+
+describe('early guesses', () => {
+  const ROLES: PlayerRole[] = ['civilian', 'civilian', 'civilian', 'undercover', 'mrwhite'];
+
+  it('are only allowed if the room enables them', () => {
+    expect(() => engine.submitMrWhiteGuess(createGame(ROLES), 'p4', 'cat')).toThrow('Mr. White can only guess after being voted out');
+    expect(() => engine.submitMrWhiteGuess(createGame(ROLES, { mrWhiteCanGuessEarly: true }), 'p0', 'cat'))
+      .toThrow('Only a Mr. White still in the game can guess');
+  });
+
+  it('win the game when correct', () => {
+    const state = engine.submitMrWhiteGuess(createGame(ROLES, { mrWhiteCanGuessEarly: true }), 'p4', 'cat');
+
+    expect(state.phase).toBe('gameEnd');
+    expect(state.winner).toBe('mrwhite');
+  });
+
+  it('do not let a different word with the same beginning win', () => {
+    const state = engine.submitMrWhiteGuess(createGame(ROLES, { mrWhiteCanGuessEarly: true, guessStrictness: 'lenient' }), 'p4', 'cater');
+
+    expect(state.mrWhiteGuessVerdict).toBe('wrong');
+    expect(state.players.find(p => p.id === 'p4')?.isEliminated).toBe(true);
+  });
+
+  it('eliminate Mr. White when wrong', () => {
+    const state = engine.submitMrWhiteGuess(createGame(ROLES, { mrWhiteCanGuessEarly: true }), 'p4', 'dog');
+
+    expect(state.mrWhiteGuessVerdict).toBe('wrong');
+    expect(state.players.find(p => p.id === 'p4')?.isEliminated).toBe(true);
+    expect(state.phase).toBe('wordReveal');
+  });
+
+  it('hold the vote while the host judges a close guess', () => {
+    const settings: Partial<RoomSettings> = { mrWhiteCanGuessEarly: true, guessStrictness: 'strict', hostReviewsCloseGuesses: true };
+    const state = engine.assignGuessReviewer(engine.submitMrWhiteGuess(describeAll(createGame(ROLES, settings)), 'p4', 'cats'), 'p0');
+
+    expect(state.mrWhiteGuessVerdict).toBe('pendingReview');
+    expect(() => engine.startVoting(state)).toThrow("Judge Mr. White's guess first");
+
+    const rejected = engine.reviewMrWhiteGuess(state, 'p0', false);
+    expect(rejected.players.find(p => p.id === 'p4')?.isEliminated).toBe(true);
+    expect(engine.startVoting(rejected).mrWhiteGuessVerdict).toBeUndefined();
+  });
+
+  it('stop the speaker timer while the host judges a close guess', () => {
+    const settings: Partial<RoomSettings> = {
+      mrWhiteCanGuessEarly: true,
+      guessStrictness: 'strict',
+      hostReviewsCloseGuesses: true,
+      timers: { speakerSeconds: 30, votingSeconds: 0 },
+    };
+    const running = engine.updateTimer(createGame(ROLES, settings), 1000);
+    expect(running.timer?.kind).toBe('speaker');
+
+    const held = engine.updateTimer(engine.assignGuessReviewer(engine.submitMrWhiteGuess(running, 'p4', 'cats'), 'p0'), 2000);
+    expect(held.timer).toBeUndefined();
+
+    const resumed = engine.updateTimer(engine.reviewMrWhiteGuess(held, 'p0', false), 3000);
+    expect(resumed.timer).toMatchObject({ kind: 'speaker', playerId: 'p0', endsAt: 33000 });
+  });
+});
+
+describe('event log', () => {
+  it('records a game from start to end', () => {
+    let state = createGame(['civilian', 'civilian', 'civilian', 'undercover']);
+    expect(state.eventLog).toEqual([expect.objectContaining({ type: 'gameStarted', round: 1 })]);
+    expect((state.eventLog[0] as { players: unknown[] }).players).toHaveLength(4);
+
+    state = vote(engine.startVoting(describeAll(state)), [['p0', 'p3'], ['p1', 'p3'], ['p2', 'p3'], ['p3', 'p0']]);
+    state = engine.continueGame(state);
+
+    expect(state.eventLog.map(event => event.type)).toEqual([
+      'gameStarted',
+      'description', 'description', 'description', 'description',
+      'vote', 'vote', 'vote', 'vote',
+      'elimination',
+      'gameEnded',
+    ]);
+    expect(state.eventLog.slice(-2)).toEqual([
+      { type: 'elimination', round: 1, playerId: 'p3', reason: 'vote' },
+      { type: 'gameEnded', round: 1, winner: 'civilian' },
+    ]);
+  });
+
+  it('records players leaving during a game only', () => {
+    const state = engine.removePlayer(createGame(['civilian', 'civilian', 'civilian', 'civilian', 'undercover']), 'p0');
+
+    expect(state.eventLog.at(-1)).toEqual({ type: 'playerLeft', round: 1, playerId: 'p0' });
+    const setup = engine.addPlayer(engine.createGameState(), 'p0', 'Player 0');
+    expect(engine.removePlayer(setup, 'p0').eventLog).toEqual([]);
+  });
+});
+
+describe('player names', () => {
+  it('are cleaned up before they are used', () => {
+    expect(engine.sanitizePlayerName('  Al​ex \t  Smith\n')).toBe('Alex Smith');
+    expect(engine.sanitizePlayerName('x'.repeat(engine.MAX_NAME_LENGTH + 5))).toHaveLength(engine.MAX_NAME_LENGTH);
+    expect(engine.sanitizePlayerName('​ \u0007')).toBe('');
+  });
+
+  it('must not be empty', () => {
+    expect(() => engine.addPlayer(engine.createGameState(), 'p0', '​ ')).toThrow('Please enter a name');
+  });
+
+  it('must be unique, ignoring case', () => {
+    const state = engine.addPlayer(engine.createGameState(), 'p0', 'Alex');
+
+    expect(() => engine.addPlayer(state, 'p1', ' alex ')).toThrow('The name "alex" is already taken. How about "alex 2"?');
+    expect(engine.addPlayer(state, 'p1', 'Alexa').players.map(p => p.name)).toEqual(['Alex', 'Alexa']);
+  });
+
+  it('get a free number suggested', () => {
+    const state = ['Alex', 'Alex 2', 'x'.repeat(engine.MAX_NAME_LENGTH)].reduce(
+      (current, name, i) => engine.addPlayer(current, `p${i}`, name),
+      engine.createGameState()
+    );
+
+    expect(engine.suggestPlayerName(state, 'Alex')).toBe('Alex 3');
+    expect(engine.suggestPlayerName(state, 'x'.repeat(engine.MAX_NAME_LENGTH))).toBe(`${'x'.repeat(engine.MAX_NAME_LENGTH - 2)} 2`);
+  });
+});
+
+describe('spectators', () => {
+  function createSetupWithSpectator(): GameState {
+    let state = engine.createGameState();
+    ['p0', 'p1', 'p2', 'p3'].forEach(id => {
+      state = engine.addPlayer(state, id, `Player ${id}`);
+    });
+    return engine.addPlayer(state, 's0', 'Watcher', true);
+  }
+
+  it('watch without taking a seat', () => {
+    const state = createSetupWithSpectator();
+
+    expect(state.players.map(p => p.id)).toEqual(['p0', 'p1', 'p2', 'p3']);
+    expect(state.spectators.map(p => p.id)).toEqual(['s0']);
+    expect(() => engine.addPlayer(state, 'p4', 'watcher')).toThrow('already taken');
+  });
+
+  it('include everyone who joins a running game', () => {
+    const state = engine.addPlayer(createGame(['civilian', 'civilian', 'civilian', 'undercover']), 'p4', 'Late');
+
+    expect(state.spectators.map(p => p.id)).toEqual(['p4']);
+    expect(state.players).toHaveLength(4);
+  });
+
+  it('join the players at the next game while there are free seats', () => {
+    let state = createSetupWithSpectator();
+    state = engine.updateSettings(state, { ...state.settings, maxPlayers: 5 }, BUILT_IN_WORD_PACKS);
+    state = engine.addPlayer(state, 's1', 'Second watcher', true);
+
+    const reset = engine.resetGame({ ...state, phase: 'gameEnd' });
+    expect(reset.players.map(p => p.id)).toEqual(['p0', 'p1', 'p2', 'p3', 's0']);
+    expect(reset.spectators.map(p => p.id)).toEqual(['s1']);
+  });
+
+  it('can leave', () => {
+    expect(engine.removePlayer(createSetupWithSpectator(), 's0').spectators).toEqual([]);
+  });
+});
@@ -0,0 +1,1072 @@
+import { DescriptionMode, GameEvent, GameState, GuessStrictness, GuessVerdict, Player, PlayerRole, RoleDistribution, RoomSettings, RoomVisibility, TieBreakRule, WordPack, WordPair } from '../types/game';
+import { calculateDefaultDistribution, distributionMeetsLimits } from './roleDistribution';
+import { GameEngineError } from './errors';
+import { AGE_RATINGS, MAX_CATEGORY_LENGTH, normalizeWordPack, WORD_PAIR_DIFFICULTIES } from './wordPairs/format';
+import { filterWordPairs, getWordPairs } from './wordPairs';
+import { containsWord, matchGuess } from './wordMatching';
+
+/**
+ * Pure game rules for Undercover.
+ *
+ * Every function takes the current game state and returns a new one without
+ * mutating its input. The server runs these for every room and online clients
+ * only send intents; in a local game the browser runs them on its own.
+ */
+
+export const MIN_PLAYERS = 4;
+export const MAX_PLAYERS = 20;
+export const MAX_SPECTATORS = 10;
+
+export const MAX_TIMER_SECONDS = 300;
+export const MAX_MR_WHITE_GUESS_ATTEMPTS = 3;
+export const MAX_WIN_POINTS = 100;
+export const MAX_CUSTOM_WORD_PACKS = 10;
+
+export const MAX_NAME_LENGTH = 25;
+export const MAX_DESCRIPTION_LENGTH = 100;
+export const MAX_GUESS_LENGTH = 50;
+export const MAX_ROOM_PASSWORD_LENGTH = 50;
+
+export const TIE_BREAK_RULES: TieBreakRule[] = ['random', 'revote', 'noElimination', 'extraDescription'];
+export const DESCRIPTION_MODES: DescriptionMode[] = ['typed', 'spoken'];
+export const GUESS_STRICTNESS_LEVELS: GuessStrictness[] = ['strict', 'normal', 'lenient'];
+export const ROOM_VISIBILITIES: RoomVisibility[] = ['private', 'public'];
+
+/**
+ * Settings of a new room
+ */
+export const DEFAULT_SETTINGS: RoomSettings = {
+  timers: {
+    speakerSeconds: 0,
+    votingSeconds: 0,
+  },
+  maxPlayers: MAX_PLAYERS,
+  wordPackIds: ['en'],
+  wordFilter: {
+    categories: [],
+    difficulties: [],
+    maxAgeRating: 'adult',
+  },
+  swapWordSides: false,
+  mrWhiteGuessAttempts: 1,
+  guessStrictness: 'normal',
+  hostReviewsCloseGuesses: false,
+  mrWhiteCanGuessEarly: false,
+  tieBreakRule: 'random',
+  scoring: {
+    civilian: 2,
+    undercover: 10,
+    mrwhite: 6,
+  },
+  descriptionMode: 'typed',
+  visibility: 'private',
+  spectatorsSeeRoles: false,
+};
+
+export { GameEngineError };
+
+function shuffle<T>([...arr]: T[]): T[] {
+  let m = arr.length;
+  while (m) {
+    const i = Math.floor(Math.random() * m--);
+    [arr[m], arr[i]] = [arr[i], arr[m]];
+  }
+  return arr;
+}
+
+function pickRandom<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+/**
+ * Create the state of a fresh room without any players
+ */
+export function createGameState(): GameState {
+  return {
+    players: [],
+    spectators: [],
+    phase: 'setup',
+    currentRound: 0,
+    majorityWord: '',
+    undercoverWord: '',
+    mrWhiteGuess: undefined,
+    descriptionHistory: [],
+    eventLog: [],
+    roleDistribution: calculateDefaultDistribution(MIN_PLAYERS),
+    settings: DEFAULT_SETTINGS,
+    customWordPacks: [],
+  };
+}
+
+/**
+ * Append an event to the log of the game
+ */
+function logEvent(state: GameState, event: GameEvent): GameState {
+  return { ...state, eventLog: [...state.eventLog, event] };
+}
+
+/**
+ * Check whether one side has won
+ * @param players All players of the game
+ * @returns The winning side, or null if the game goes on
+ */
+export function checkGameEnd(players: Player[]): string | null {
+  const alivePlayers = players.filter(p => !p.isEliminated);
+  const aliveCivilians = alivePlayers.filter(p => p.role === 'civilian');
+  const aliveUndercovers = alivePlayers.filter(p => p.role === 'undercover');
+  const aliveMrWhites = alivePlayers.filter(p => p.role === 'mrwhite');
+
+  if (aliveUndercovers.length === 0 && aliveMrWhites.length === 0) {
+    if (aliveCivilians.length === 0) return null;
+    return 'civilian';
+  }
+
+  if (aliveCivilians.length <= 1) {
+    if (aliveUndercovers.length > 0) {
+      if (aliveMrWhites.length > 0) {
+        return 'infiltrators';
+      }
+      return 'undercover';
+    }
+    return 'mrwhite';
+  }
+
+  return null;
+}
+
+/**
+ * Get the player whose turn it is to describe their word
+ * @param state The current game state
+ * @returns The ID of the current speaker, or undefined if everyone has spoken
+ */
+export function getCurrentSpeakerId(state: GameState): string | undefined {
+  return (state.speakingOrder || []).find(id => {
+    const player = state.players.find(p => p.id === id);
+    return player && !player.isEliminated && !player.submittedDescription && !player.finishedSpeaking && !player.turnSkipped;
+  });
+}
+
+function isWinner(player: Player, winner: string): boolean {
+  if (winner === 'infiltrators') {
+    return player.role === 'undercover' || player.role === 'mrwhite';
+  }
+  return player.role === winner;
+}
+
+function endGame(state: GameState, winner: string): GameState {
+  const players = state.players.map(player => {
+    const role = player.role as keyof RoomSettings['scoring'];
+    const pointsToAdd = isWinner(player, winner) ? state.settings.scoring[role] || 0 : 0;
+    return { ...player, score: (player.score || 0) + pointsToAdd };
+  });
+
+  return logEvent(
+    { ...state, players, phase: 'gameEnd', winner },
+    { type: 'gameEnded', round: state.currentRound, winner }
+  );
+}
+
+function generateSpeakingOrder(players: Player[]): string[] {
+  const activePlayers = players.filter(p => !p.isEliminated);
+  const nonWhitePlayers = activePlayers.filter(p => p.role !== 'mrwhite');
+
+  // Ensure the first player is not a Mr. White
+  const firstPlayer = pickRandom(nonWhitePlayers.length > 0 ? nonWhitePlayers : activePlayers);
+  if (!firstPlayer) return [];
+
+  const remainingPlayers = activePlayers.filter(p => p.id !== firstPlayer.id);
+  return [firstPlayer, ...shuffle(remainingPlayers)].map(player => player.id);
+}
+
+function assignWords(players: Player[], wordPairs: WordPair[], swapWordSides: boolean) {
+  if (wordPairs.length === 0) {
+    throw new GameEngineError('No word pairs match the selected word packs and filters');
+  }
+  const { words: [firstWord, secondWord], aliases } = pickRandom(wordPairs);
+  const [majorityWord, undercoverWord] = swapWordSides && Math.random() < 0.5
+    ? [secondWord, firstWord]
+    : [firstWord, secondWord];
+
+  const updatedPlayers = players.map(player => ({
+    ...player,
+    word: player.role === 'mrwhite' ? '' : player.role === 'undercover' ? undercoverWord : majorityWord,
+    submittedDescription: undefined,
+    finishedSpeaking: undefined,
+    turnSkipped: undefined,
+  }));
+
+  return {
+    players: updatedPlayers,
+    majorityWord,
+    undercoverWord,
+    majorityWordAliases: aliases?.[majorityWord] ?? [],
+    undercoverWordAliases: aliases?.[undercoverWord] ?? [],
+  };
+}
+
+/**
+ * Get the players who can receive votes: everyone still in the game,
+ * or only the tied players while a revote is running
+ * @param state The current game state
+ */
+export function getVoteCandidateIds(state: GameState): string[] {
+  return state.players
+    .filter(p => !p.isEliminated && (!state.tieBreak || state.tieBreak.tiedPlayerIds.includes(p.id)))
+    .map(p => p.id);
+}
+
+function tallyVotesIfComplete(state: GameState): GameState {
+  const votingResults = state.votingResults || {};
+  const activePlayers = state.players.filter(p => !p.isEliminated);
+  const candidateIds = getVoteCandidateIds(state);
+
+  // A player who could only vote for themselves has nobody to vote for
+  const allVoted = activePlayers.every(p => p.id in votingResults || candidateIds.every(id => id === p.id));
+  if (!allVoted || Object.keys(votingResults).length === 0) return state;
+
+  return tallyVotes(state);
+}
+
+// Count the votes and log who was voted out, if anyone
+function tallyVotes(state: GameState): GameState {
+  const talliedState = resolveVotes(state);
+  if (talliedState.phase !== 'results' || !talliedState.lastEliminatedId) return talliedState;
+
+  return logEvent(talliedState, {
+    type: 'elimination',
+    round: state.currentRound,
+    playerId: talliedState.lastEliminatedId,
+    reason: 'vote',
+  });
+}
+
+function resolveVotes(state: GameState): GameState {
+  const votingResults = state.votingResults || {};
+  if (Object.keys(votingResults).length === 0) {
+    // Nobody voted before the time ran out, so nobody is eliminated
+    return { ...state, phase: 'results', lastEliminatedId: undefined };
+  }
+
+  const voteCount: Record<string, number> = {};
+  Object.values(votingResults).forEach(id => {
+    voteCount[id] = (voteCount[id] || 0) + 1;
+  });
+
+  const maxVotes = Math.max(...Object.values(voteCount));
+  const mostVotedPlayers = Object.entries(voteCount)
+    .filter(([, votes]) => votes === maxVotes)
+    .map(([id]) => id);
+
+  if (mostVotedPlayers.length === 1) {
+    return { ...state, phase: 'results', lastEliminatedId: mostVotedPlayers[0] };
+  }
+  return breakTie(state, mostVotedPlayers);
+}
+
+function breakTie(state: GameState, tiedPlayerIds: string[]): GameState {
+  // A revote that ends in another tie is decided at random
+  if (state.tieBreak) {
+    return {
+      ...state,
+      phase: 'results',
+      lastEliminatedId: pickRandom(tiedPlayerIds),
+      tieBreak: { ...state.tieBreak, tiedPlayerIds, decidedAtRandom: true },
+    };
+  }
+
+  const tieBreak = { rule: state.settings.tieBreakRule, tiedPlayerIds };
+  switch (tieBreak.rule) {
+    case 'noElimination':
+      return { ...state, phase: 'results', lastEliminatedId: undefined, tieBreak };
+    case 'revote':
+      return { ...state, votingResults: {}, timer: undefined, tieBreak };
+    case 'extraDescription':
+      // Back to the descriptions, where only the tied players have a turn left
+      return {
+        ...state,
+        phase: 'wordReveal',
+        votingResults: {},
+        timer: undefined,
+        tieBreak,
+        players: state.players.map(p =>
+          tiedPlayerIds.includes(p.id) ? { ...p, submittedDescription: undefined, finishedSpeaking: undefined, turnSkipped: undefined } : p
+        ),
+      };
+    default:
+      return { ...state, phase: 'results', lastEliminatedId: pickRandom(tiedPlayerIds), tieBreak };
+  }
+}
+
+/**
+ * Clean up a display name: remove control and invisible formatting characters such as
+ * zero-width spaces, and collapse runs of whitespace
+ * @returns The cleaned name, empty if nothing visible was left
+ */
+export function sanitizePlayerName(name: string): string {
+  return name.replace(/[\p{Cc}\p{Cf}]/gu, '').replace(/\s+/g, ' ').trim().slice(0, MAX_NAME_LENGTH).trim();
+}
+
+/**
+ * Check whether a player or spectator in the room already goes by a name, ignoring case
+ */
+function isNameTaken(state: GameState, name: string): boolean {
+  const lowerCaseName = name.toLowerCase();
+  return [...state.players, ...state.spectators].some(p => p.name.toLowerCase() === lowerCaseName);
+}
+
+/**
+ * Suggest a free variant of a name that is taken, e.g. "Alex 2"
+ * @param state The current game state
+ * @param name The sanitized name that is taken
+ */
+export function suggestPlayerName(state: GameState, name: string): string {
+  for (let number = 2; ; number++) {
+    const suffix = ` ${number}`;
+    const candidate = name.slice(0, MAX_NAME_LENGTH - suffix.length).trimEnd() + suffix;
+    if (!isNameTaken(state, candidate)) return candidate;
+  }
+}
+
+/**
+ * Add a player to the game. Players joining a running game become spectators until the next game.
+ * @param state The current game state
+ * @param id The ID of the new player
+ * @param name The display name of the new player, sanitized before it is used
+ * @param asSpectator Whether the player only wants to watch
+ * @throws GameEngineError if the room is full, or the name is empty or already taken
+ */
+export function addPlayer(state: GameState, id: string, name: string, asSpectator = false): GameState {
+  const joinsAsSpectator = asSpectator || state.phase !== 'setup';
+  if (joinsAsSpectator && state.spectators.length >= MAX_SPECTATORS) {
+    throw new GameEngineError(`Maximum ${MAX_SPECTATORS} spectators allowed!`);
+  }
+  if (!joinsAsSpectator && state.players.length >= state.settings.maxPlayers) {
+    throw new GameEngineError(`Maximum ${state.settings.maxPlayers} players allowed!`);
+  }
+
+  const playerName = sanitizePlayerName(name);
+  if (!playerName) {
+    throw new GameEngineError('Please enter a name');
+  }
+  if (isNameTaken(state, playerName)) {
+    throw new GameEngineError(`The name "${playerName}" is already taken. How about "${suggestPlayerName(state, playerName)}"?`);
+  }
+
+  const newPlayer: Player = { id, name: playerName, score: 0 };
+  if (joinsAsSpectator) {
+    return { ...state, spectators: [...state.spectators, newPlayer] };
+  }
+
+  const players = [...state.players, newPlayer];
+  return {
+    ...state,
+    players,
+    roleDistribution: state.phase === 'setup' ? calculateDefaultDistribution(players.length) : state.roleDistribution,
+  };
+}
+
+/**
+ * Remove a player from the game, ending it if one side has won as a result
+ * @param state The current game state
+ * @param id The ID of the leaving player
+ */
+export function removePlayer(state: GameState, id: string): GameState {
+  if (state.spectators.some(p => p.id === id)) {
+    return { ...state, spectators: state.spectators.filter(p => p.id !== id) };
+  }
+  if (!state.players.some(p => p.id === id)) return state;
+
+  const players = state.players.filter(p => p.id !== id);
+  const votingResults = state.votingResults
+    ? Object.fromEntries(Object.entries(state.votingResults).filter(([voterId, targetId]) => voterId !== id && targetId !== id))
+    : undefined;
+
+  const isPlaying = state.phase !== 'setup' && state.phase !== 'gameEnd';
+  const nextState: GameState = {
+    ...state,
+    players,
+    eventLog: isPlaying ? [...state.eventLog, { type: 'playerLeft', round: state.currentRound, playerId: id }] : state.eventLog,
+    votingResults,
+    speakingOrder: state.speakingOrder?.filter(s => s !== id),
+    tieBreak: state.tieBreak && {
+      ...state.tieBreak,
+      tiedPlayerIds: state.tieBreak.tiedPlayerIds.filter(tiedId => tiedId !== id),
+    },
+  };
+
+  if (state.phase === 'setup') {
+    return { ...nextState, roleDistribution: calculateDefaultDistribution(players.length) };
+  }
+
+  if (isPlaying) {
+    const winner = checkGameEnd(players);
+    if (winner) return endGame(nextState, winner);
+  }
+
+  if (state.phase === 'voting') {
+    return tallyVotesIfComplete(nextState);
+  }
+
+  return nextState;
+}
+
+/**
+ * Mark a player as temporarily disconnected, or as back after a reconnect
+ * @param state The current game state
+ * @param id The ID of the player
+ * @param isAway Whether the player is currently disconnected
+ */
+export function setPlayerAway(state: GameState, id: string, isAway: boolean): GameState {
+  return {
+    ...state,
+    players: state.players.map(p => (p.id === id ? { ...p, isAway } : p)),
+    spectators: state.spectators.map(p => (p.id === id ? { ...p, isAway } : p)),
+  };
+}
+
+/**
+ * Change how many undercovers and Mr. Whites are dealt at the start of the game
+ */
+export function updateRoleDistribution(state: GameState, distribution: RoleDistribution): GameState {
+  if (state.phase !== 'setup') {
+    throw new GameEngineError('Roles can only be changed before the game starts');
+  }
+  if (!distributionMeetsLimits(distribution, state.players.length)) {
+    throw new GameEngineError('Invalid role distribution');
+  }
+
+  return { ...state, roleDistribution: distribution };
+}
+
+/**
+ * Change the room settings after checking every value
+ * @param state The current game state
+ * @param settings The settings chosen by the host
+ * @param availablePacks The word packs that can be selected in this room
+ */
+export function updateSettings(state: GameState, settings: RoomSettings, availablePacks: WordPack[]): GameState {
+  if (state.phase !== 'setup') {
+    throw new GameEngineError('Settings can only be changed before the game starts');
+  }
+
+  const isInRange = (value: number, min: number, max: number) => Number.isInteger(value) && value >= min && value <= max;
+  const { timers, scoring, wordFilter } = settings;
+  const availablePackIds = availablePacks.map(pack => pack.id);
+
+  if (!isInRange(timers.speakerSeconds, 0, MAX_TIMER_SECONDS) || !isInRange(timers.votingSeconds, 0, MAX_TIMER_SECONDS)) {
+    throw new GameEngineError('Invalid timer settings');
+  }
+  if (!isInRange(settings.maxPlayers, Math.max(MIN_PLAYERS, state.players.length), MAX_PLAYERS)) {
+    throw new GameEngineError('Invalid maximum number of players');
+  }
+  if (settings.wordPackIds.length === 0 || !settings.wordPackIds.every(id => availablePackIds.includes(id))) {
+    throw new GameEngineError('Select at least one word pack');
+  }
+  if (
+    !Array.isArray(wordFilter.categories)
+    || !wordFilter.categories.every(category => typeof category === 'string' && category.length <= MAX_CATEGORY_LENGTH)
+    || !Array.isArray(wordFilter.difficulties)
+    || !wordFilter.difficulties.every(difficulty => WORD_PAIR_DIFFICULTIES.includes(difficulty))
+    || !AGE_RATINGS.includes(wordFilter.maxAgeRating)
+  ) {
+    throw new GameEngineError('Invalid word filter');
+  }
+  const normalizedFilter = {
+    categories: [...new Set(wordFilter.categories)],
+    difficulties: [...new Set(wordFilter.difficulties)],
+    maxAgeRating: wordFilter.maxAgeRating,
+  };
+  if (filterWordPairs(getWordPairs(availablePacks, settings.wordPackIds), normalizedFilter).length === 0) {
+    throw new GameEngineError('No word pairs match the selected word packs and filters');
+  }
+  if (typeof settings.swapWordSides !== 'boolean') {
+    throw new GameEngineError('Invalid word side setting');
+  }
+  if (!isInRange(settings.mrWhiteGuessAttempts, 1, MAX_MR_WHITE_GUESS_ATTEMPTS)) {
+    throw new GameEngineError('Invalid number of Mr. White guesses');
+  }
+  if (!GUESS_STRICTNESS_LEVELS.includes(settings.guessStrictness)) {
+    throw new GameEngineError('Unknown guess strictness');
+  }
+  if (typeof settings.hostReviewsCloseGuesses !== 'boolean') {
+    throw new GameEngineError('Invalid guess review setting');
+  }
+  if (typeof settings.mrWhiteCanGuessEarly !== 'boolean') {
+    throw new GameEngineError('Invalid early guess setting');
+  }
+  if (!TIE_BREAK_RULES.includes(settings.tieBreakRule)) {
+    throw new GameEngineError('Unknown tie-break rule');
+  }
+  if (![scoring.civilian, scoring.undercover, scoring.mrwhite].every(points => isInRange(points, 0, MAX_WIN_POINTS))) {
+    throw new GameEngineError('Invalid scoring values');
+  }
+  if (!DESCRIPTION_MODES.includes(settings.descriptionMode)) {
+    throw new GameEngineError('Unknown description mode');
+  }
+  if (!ROOM_VISIBILITIES.includes(settings.visibility)) {
+    throw new GameEngineError('Unknown room visibility');
+  }
+  if (typeof settings.spectatorsSeeRoles !== 'boolean') {
+    throw new GameEngineError('Invalid spectator setting');
+  }
+
+  return {
+    ...state,
+    settings: {
+      timers: { speakerSeconds: timers.speakerSeconds, votingSeconds: timers.votingSeconds },
+      maxPlayers: settings.maxPlayers,
+      wordPackIds: [...new Set(settings.wordPackIds)],
+      wordFilter: normalizedFilter,
+      swapWordSides: settings.swapWordSides,
+      mrWhiteGuessAttempts: settings.mrWhiteGuessAttempts,
+      guessStrictness: settings.guessStrictness,
+      hostReviewsCloseGuesses: settings.hostReviewsCloseGuesses,
+      mrWhiteCanGuessEarly: settings.mrWhiteCanGuessEarly,
+      tieBreakRule: settings.tieBreakRule,
+      scoring: { civilian: scoring.civilian, undercover: scoring.undercover, mrwhite: scoring.mrwhite },
+      descriptionMode: settings.descriptionMode,
+      visibility: settings.visibility,
+      spectatorsSeeRoles: settings.spectatorsSeeRoles,
+    },
+  };
+}
+
+/**
+ * Record whether joining the room needs a password; the password itself stays with the room
+ */
+export function setPasswordProtection(state: GameState, hasPassword: boolean): GameState {
+  return { ...state, hasPassword };
+}
+
+/**
+ * Lock the room so nobody new can join, or open it again; players who are in it can still rejoin
+ */
+export function setRoomLocked(state: GameState, isLocked: boolean): GameState {
+  return { ...state, isLocked };
+}
+
+/**
+ * Add a custom word pack to the room and select it, or replace an existing custom pack
+ * @param state The current game state
+ * @param pack The word pack sent by the host; its ID decides whether an existing pack is replaced
+ * @param newId The ID given to the pack if it is new
+ */
+export function saveWordPack(state: GameState, pack: WordPack, newId: string): GameState {
+  if (state.phase !== 'setup') {
+    throw new GameEngineError('Word packs can only be changed before the game starts');
+  }
+
+  const isExisting = state.customWordPacks.some(p => p.id === pack?.id);
+  if (!isExisting && state.customWordPacks.length >= MAX_CUSTOM_WORD_PACKS) {
+    throw new GameEngineError(`A room can have at most ${MAX_CUSTOM_WORD_PACKS} custom word packs`);
+  }
+
+  if (isExisting) {
+    const savedPack = { ...normalizeWordPack(pack), id: pack.id };
+    return {
+      ...state,
+      customWordPacks: state.customWordPacks.map(p => (p.id === pack.id ? savedPack : p)),
+    };
+  }
+
+  const savedPack = { ...normalizeWordPack(pack), id: newId };
+  return {
+    ...state,
+    customWordPacks: [...state.customWordPacks, savedPack],
+    settings: { ...state.settings, wordPackIds: [...state.settings.wordPackIds, newId] },
+  };
+}
+
+/**
+ * Remove a custom word pack from the room and from the selected packs
+ */
+export function deleteWordPack(state: GameState, packId: string): GameState {
+  if (state.phase !== 'setup') {
+    throw new GameEngineError('Word packs can only be changed before the game starts');
+  }
+  if (!state.customWordPacks.some(p => p.id === packId)) {
+    throw new GameEngineError('Word pack not found');
+  }
+
+  // Fall back to the default pack rather than leaving nothing to draw from
+  const wordPackIds = state.settings.wordPackIds.filter(id => id !== packId);
+  return {
+    ...state,
+    customWordPacks: state.customWordPacks.filter(p => p.id !== packId),
+    settings: { ...state.settings, wordPackIds: wordPackIds.length > 0 ? wordPackIds : DEFAULT_SETTINGS.wordPackIds },
+  };
+}
+
+/**
+ * Start the game from setup by dealing roles and words, or start the next round
+ * @param state The current game state
+ * @param wordPairs The word pairs to draw from when dealing words
+ */
+export function startGame(state: GameState, wordPairs: WordPair[]): GameState {
+  if (state.phase === 'setup' && state.currentRound === 0) {
+    if (state.players.length < MIN_PLAYERS) {
+      throw new GameEngineError(`Minimum ${MIN_PLAYERS} players required!`);
+    }
+    if (!distributionMeetsLimits(state.roleDistribution, state.players.length)) {
+      throw new GameEngineError('Invalid role distribution');
+    }
+
+    const { undercovers, mrWhites } = state.roleDistribution;
+    const playersWithRoles = shuffle(state.players).map((player, index) => {
+      let role: PlayerRole = 'civilian';
+      if (index < mrWhites) {
+        role = 'mrwhite';
+      } else if (index < mrWhites + undercovers) {
+        role = 'undercover';
+      }
+
+      return {
+        ...player,
+        role,
+        isEliminated: false,
+      };
+    });
+
+    const dealtWords = assignWords(playersWithRoles, wordPairs, state.settings.swapWordSides);
+    return {
+      ...state,
+      ...dealtWords,
+      speakingOrder: generateSpeakingOrder(playersWithRoles),
+      phase: 'wordReveal',
+      votingResults: {},
+      lastEliminatedId: undefined,
+      winner: undefined,
+      currentRound: 1,
+      mrWhiteGuess: undefined,
+      mrWhiteGuessCount: undefined,
+      mrWhiteGuessVerdict: undefined,
+      mrWhiteGuesserId: undefined,
+      mrWhiteGuessReviewerId: undefined,
+      tieBreak: undefined,
+      descriptionHistory: [],
+      eventLog: [{
+        type: 'gameStarted',
+        round: 1,
+        players: playersWithRoles.map(({ id, name, role }) => ({ id, name, role })),
+        majorityWord: dealtWords.majorityWord,
+        undercoverWord: dealtWords.undercoverWord,
+      }],
+    };
+  }
+
+  if (state.phase !== 'discussion') {
+    throw new GameEngineError('The next round can only start after the results');
+  }
+
+  return {
+    ...state,
+    speakingOrder: generateSpeakingOrder(state.players),
+    phase: 'wordReveal',
+    votingResults: {},
+    currentRound: state.currentRound + 1,
+    mrWhiteGuess: undefined,
+    mrWhiteGuessCount: undefined,
+    mrWhiteGuessVerdict: undefined,
+    mrWhiteGuesserId: undefined,
+    mrWhiteGuessReviewerId: undefined,
+  };
+}
+
+/**
+ * Deal a new word pair. Only allowed before anyone has described in the first round.
+ */
+export function rerollWords(state: GameState, wordPairs: WordPair[]): GameState {
+  if (state.phase !== 'wordReveal' || state.currentRound !== 1 || state.tieBreak) {
+    throw new GameEngineError('Words can only be rerolled in the first round');
+  }
+
+  const dealtWords = assignWords(state.players, wordPairs, state.settings.swapWordSides);
+  return logEvent({
+    ...state,
+    ...dealtWords,
+    // Descriptions of the old words would only mislead
+    descriptionHistory: state.descriptionHistory.filter(entry => entry.round !== state.currentRound),
+  }, {
+    type: 'wordsRerolled',
+    round: state.currentRound,
+    majorityWord: dealtWords.majorityWord,
+    undercoverWord: dealtWords.undercoverWord,
+  });
+}
+
+/**
+ * Check whether a description uses the player's own word or one of its aliases, in any form.
+ * The word of the other side is not checked, since a rejection would give it away; nor is Mr. White, who has no word.
+ */
+function givesAwayWord(state: GameState, playerId: string, description: string): boolean {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player?.word) return false;
+
+  const aliases = player.role === 'undercover' ? state.undercoverWordAliases : state.majorityWordAliases;
+  return [player.word, ...(aliases ?? [])].some(word => containsWord(description, word));
+}
+
+/**
+ * Store the description of the player whose turn it is and add it to the game's history
+ */
+export function submitDescription(state: GameState, playerId: string, description: string): GameState {
+  if (state.phase !== 'wordReveal') {
+    throw new GameEngineError('Descriptions can only be submitted during the discussion');
+  }
+  if (getCurrentSpeakerId(state) !== playerId) {
+    throw new GameEngineError("It's not your turn");
+  }
+
+  const submittedDescription = description.trim();
+  if (!submittedDescription) {
+    throw new GameEngineError('Description must not be empty');
+  }
+  if (givesAwayWord(state, playerId, submittedDescription)) {
+    throw new GameEngineError("Your description can't contain your word", 'descriptionContainsSecretWord');
+  }
+
+  const entry = { round: state.currentRound, playerId, description: submittedDescription };
+  return logEvent({
+    ...state,
+    players: state.players.map(p =>
+      p.id === playerId ? { ...p, submittedDescription } : p
+    ),
+    descriptionHistory: [...state.descriptionHistory, entry],
+  }, { type: 'description', ...entry });
+}
+
+/**
+ * End the turn of the current speaker, who said their description out loud.
+ * Only available in spoken mode, where typing a description is optional.
+ * @param state The current game state
+ * @param playerId The ID of the speaker whose turn ends
+ */
+export function finishSpeaking(state: GameState, playerId: string): GameState {
+  if (state.phase !== 'wordReveal') {
+    throw new GameEngineError('Turns can only end during the discussion');
+  }
+  if (state.settings.descriptionMode !== 'spoken') {
+    throw new GameEngineError('Every player has to type a description in this room');
+  }
+  if (getCurrentSpeakerId(state) !== playerId) {
+    throw new GameEngineError("It's not your turn");
+  }
+
+  return {
+    ...state,
+    players: state.players.map(p =>
+      p.id === playerId ? { ...p, finishedSpeaking: true } : p
+    ),
+  };
+}
+
+/**
+ * End the discussion and open the vote
+ */
+export function startVoting(state: GameState): GameState {
+  if (state.phase !== 'wordReveal') {
+    throw new GameEngineError('Voting can only start after the discussion');
+  }
+  if (state.mrWhiteGuessVerdict === 'pendingReview') {
+    throw new GameEngineError("Judge Mr. White's guess first");
+  }
+
+  // Early guesses of this round are settled; the voted-out Mr. White guesses afresh
+  return {
+    ...state,
+    phase: 'voting',
+    votingResults: {},
+    mrWhiteGuess: undefined,
+    mrWhiteGuessCount: undefined,
+    mrWhiteGuessVerdict: undefined,
+    mrWhiteGuesserId: undefined,
+    mrWhiteGuessReviewerId: undefined,
+  };
+}
+
+/**
+ * Record a vote, resolving the round once every active player has voted
+ */
+export function submitVote(state: GameState, voterId: string, targetId: string): GameState {
+  if (state.phase !== 'voting') {
+    throw new GameEngineError('Voting is not open');
+  }
+
+  const voter = state.players.find(p => p.id === voterId);
+  const target = state.players.find(p => p.id === targetId);
+  if (!voter || voter.isEliminated) {
+    throw new GameEngineError('Eliminated players cannot vote');
+  }
+  if (!target || target.id === voter.id || !getVoteCandidateIds(state).includes(target.id)) {
+    throw new GameEngineError('Invalid vote target');
+  }
+  if (state.votingResults && voterId in state.votingResults) {
+    throw new GameEngineError('You have already voted');
+  }
+
+  return tallyVotesIfComplete(logEvent({
+    ...state,
+    votingResults: { ...(state.votingResults || {}), [voterId]: targetId },
+  }, { type: 'vote', round: state.currentRound, voterId, targetId }));
+}
+
+/**
+ * Compare a guess with the majority word using the room's strictness
+ * @returns "pendingReview" for a close guess if the room has close guesses judged
+ */
+function judgeGuess(state: GameState, guess: string): GuessVerdict {
+  const { guessStrictness, hostReviewsCloseGuesses } = state.settings;
+  const match = matchGuess(guess, state.majorityWord, state.majorityWordAliases ?? [], guessStrictness);
+
+  if (match === 'match') return 'correct';
+  return match === 'close' && hostReviewsCloseGuesses ? 'pendingReview' : 'wrong';
+}
+
+/**
+ * Eliminate a Mr. White who guessed wrong during the discussion
+ */
+function eliminateEarlyGuesser(state: GameState, playerId: string): GameState {
+  const players = state.players.map(p => (p.id === playerId ? { ...p, isEliminated: true } : p));
+  const eliminatedState = logEvent(
+    { ...state, players },
+    { type: 'elimination', round: state.currentRound, playerId, reason: 'wrongGuess' }
+  );
+  const winner = checkGameEnd(players);
+  return winner ? endGame(eliminatedState, winner) : eliminatedState;
+}
+
+/**
+ * Store a judged guess of Mr. White and add it to the log
+ */
+function recordGuess(state: GameState, playerId: string, guess: string): GameState {
+  const mrWhiteGuess = guess.trim();
+  const mrWhiteGuessVerdict = judgeGuess(state, mrWhiteGuess);
+  return logEvent(
+    { ...state, mrWhiteGuess, mrWhiteGuessVerdict, mrWhiteGuesserId: playerId },
+    { type: 'mrWhiteGuess', round: state.currentRound, playerId, guess: mrWhiteGuess, verdict: mrWhiteGuessVerdict }
+  );
+}
+
+/**
+ * Let a Mr. White still in the game announce a guess during the discussion.
+ * A correct guess wins the game, a wrong one eliminates them on the spot.
+ */
+function submitEarlyMrWhiteGuess(state: GameState, playerId: string, guess: string): GameState {
+  const guesser = state.players.find(p => p.id === playerId);
+  if (!state.settings.mrWhiteCanGuessEarly) {
+    throw new GameEngineError('Mr. White can only guess after being voted out');
+  }
+  if (guesser?.role !== 'mrwhite' || guesser.isEliminated) {
+    throw new GameEngineError('Only a Mr. White still in the game can guess');
+  }
+  if (state.mrWhiteGuessVerdict === 'pendingReview') {
+    throw new GameEngineError('The last guess is still being judged');
+  }
+
+  const guessedState = recordGuess(state, playerId, guess);
+  if (guessedState.mrWhiteGuessVerdict === 'correct') return endGame(guessedState, 'mrwhite');
+  if (guessedState.mrWhiteGuessVerdict === 'wrong') return eliminateEarlyGuesser(guessedState, playerId);
+  return guessedState;
+}
+
+/**
+ * Let Mr. White guess the civilians' word: after being voted out,
+ * or during the discussion if the room allows early guesses
+ */
+export function submitMrWhiteGuess(state: GameState, playerId: string, guess: string): GameState {
+  if (state.phase === 'wordReveal') return submitEarlyMrWhiteGuess(state, playerId, guess);
+
+  const guesser = state.players.find(p => p.id === playerId);
+  if (state.phase !== 'results' || state.lastEliminatedId !== playerId || guesser?.role !== 'mrwhite') {
+    throw new GameEngineError('Only an eliminated Mr. White can guess');
+  }
+  if (state.mrWhiteGuessVerdict === 'pendingReview') {
+    throw new GameEngineError('The last guess is still being judged');
+  }
+  const mrWhiteGuessCount = (state.mrWhiteGuessCount || 0) + 1;
+  if (mrWhiteGuessCount > state.settings.mrWhiteGuessAttempts) {
+    throw new GameEngineError('Mr. White has no guesses left');
+  }
+
+  const guessedState = recordGuess({ ...state, mrWhiteGuessCount }, playerId, guess);
+  return guessedState.mrWhiteGuessVerdict === 'correct' ? endGame(guessedState, 'mrwhite') : guessedState;
+}
+
+/**
+ * Pick who judges a close guess of Mr. White: the host, or the first connected player
+ * if the host made the guess or is away. Called again whenever the host or the players
+ * change, so the guess never waits for someone who is gone.
+ * @param state The current game state
+ * @param hostId The player ID of the host of the room
+ */
+export function assignGuessReviewer(state: GameState, hostId: string): GameState {
+  let mrWhiteGuessReviewerId: string | undefined;
+  if (state.mrWhiteGuessVerdict === 'pendingReview') {
+    const candidates = state.players.filter(p => p.id !== state.mrWhiteGuesserId);
+    const reviewer = candidates.find(p => p.id === hostId && !p.isAway)
+      ?? candidates.find(p => !p.isAway)
+      ?? candidates[0];
+    mrWhiteGuessReviewerId = reviewer?.id;
+  }
+
+  return mrWhiteGuessReviewerId === state.mrWhiteGuessReviewerId ? state : { ...state, mrWhiteGuessReviewerId };
+}
+
+/**
+ * Let the player picked to judge a close guess of Mr. White decide whether it counts
+ * @param state The current game state
+ * @param reviewerId The player ID of the player judging the guess
+ * @param accepted Whether the guess counts as the majority word
+ * @throws GameEngineError if there is no close guess or the player may not judge it
+ */
+export function reviewMrWhiteGuess(state: GameState, reviewerId: string, accepted: boolean): GameState {
+  if (state.mrWhiteGuessVerdict !== 'pendingReview' || !state.mrWhiteGuesserId) {
+    throw new GameEngineError('There is no guess to judge');
+  }
+  if (reviewerId === state.mrWhiteGuesserId) {
+    throw new GameEngineError("Mr. White can't judge their own guess");
+  }
+  if (reviewerId !== state.mrWhiteGuessReviewerId) {
+    throw new GameEngineError('Another player is judging this guess');
+  }
+
+  const reviewedState = logEvent({ ...state, mrWhiteGuessReviewerId: undefined }, {
+    type: 'guessReviewed',
+    round: state.currentRound,
+    playerId: state.mrWhiteGuesserId,
+    reviewerId,
+    accepted,
+  });
+  if (accepted) {
+    return endGame({ ...reviewedState, mrWhiteGuessVerdict: 'correct' }, 'mrwhite');
+  }
+
+  const rejectedState: GameState = { ...reviewedState, mrWhiteGuessVerdict: 'wrong' };
+  return state.phase === 'wordReveal' ? eliminateEarlyGuesser(rejectedState, state.mrWhiteGuesserId) : rejectedState;
+}
+
+/**
+ * Check whether an eliminated Mr. White can still guess, once the host has judged the last guess
+ */
+export function isMrWhiteGuessPending(state: GameState): boolean {
+  const eliminatedPlayer = state.players.find(p => p.id === state.lastEliminatedId);
+  return state.phase === 'results'
+    && eliminatedPlayer?.role === 'mrwhite'
+    && state.mrWhiteGuessVerdict !== 'pendingReview'
+    && (state.mrWhiteGuessCount || 0) < state.settings.mrWhiteGuessAttempts;
+}
+
+/**
+ * Eliminate the voted-out player and either end the game or return to the lobby
+ */
+export function continueGame(state: GameState): GameState {
+  if (state.phase !== 'results') {
+    throw new GameEngineError('There are no results to continue from');
+  }
+
+  if (isMrWhiteGuessPending(state)) {
+    throw new GameEngineError('Waiting for Mr. White to guess');
+  }
+  if (state.mrWhiteGuessVerdict === 'pendingReview') {
+    throw new GameEngineError("Judge Mr. White's guess first");
+  }
+
+  const players = state.players.map(p =>
+    p.id === state.lastEliminatedId
+      ? { ...p, isEliminated: true, submittedDescription: undefined, finishedSpeaking: undefined, turnSkipped: undefined }
+      : { ...p, submittedDescription: undefined, finishedSpeaking: undefined, turnSkipped: undefined }
+  );
+
+  const nextState: GameState = { ...state, players, votingResults: {}, tieBreak: undefined };
+  const winner = checkGameEnd(players);
+  if (winner) return endGame(nextState, winner);
+
+  return { ...nextState, phase: 'discussion', winner: undefined };
+}
+
+/**
+ * Return to setup for a new game, keeping players and their scores.
+ * Spectators join the players as long as there are free seats.
+ */
+export function resetGame(state: GameState): GameState {
+  if (state.phase !== 'gameEnd') {
+    throw new GameEngineError('The game is still running');
+  }
+
+  const freeSeats = Math.max(state.settings.maxPlayers - state.players.length, 0);
+  const players = [...state.players, ...state.spectators.slice(0, freeSeats)]
+    .map(({ id, name, score, isAway }) => ({ id, name, score, isAway }));
+
+  return {
+    ...createGameState(),
+    players,
+    spectators: state.spectators.slice(freeSeats),
+    // Keep the host's choice unless the new players no longer fit it
+    roleDistribution: distributionMeetsLimits(state.roleDistribution, players.length)
+      ? state.roleDistribution
+      : calculateDefaultDistribution(players.length),
+    settings: state.settings,
+    customWordPacks: state.customWordPacks,
+    hasPassword: state.hasPassword,
+    isLocked: state.isLocked,
+  };
+}
+
+/**
+ * Start, keep or stop the countdown to match the current phase and speaker.
+ * With speaker timers on, voting starts on its own once everyone has spoken.
+ * The countdown stops while the host judges an early guess of Mr. White.
+ * @param state The current game state
+ * @param now The current time in milliseconds
+ */
+export function updateTimer(state: GameState, now: number): GameState {
+  const { speakerSeconds, votingSeconds } = state.settings.timers;
+
+  if (state.phase === 'wordReveal' && speakerSeconds > 0) {
+    // The game holds while the host judges an early guess of Mr. White
+    if (state.mrWhiteGuessVerdict === 'pendingReview') {
+      return state.timer ? { ...state, timer: undefined } : state;
+    }
+
+    const speakerId = getCurrentSpeakerId(state);
+    if (!speakerId) return updateTimer(startVoting(state), now);
+    if (state.timer?.kind === 'speaker' && state.timer.playerId === speakerId) return state;
+
+    const duration = speakerSeconds * 1000;
+    return { ...state, timer: { kind: 'speaker', playerId: speakerId, endsAt: now + duration, duration } };
+  }
+
+  if (state.phase === 'voting' && votingSeconds > 0) {
+    if (state.timer?.kind === 'voting') return state;
+
+    const duration = votingSeconds * 1000;
+    return { ...state, timer: { kind: 'voting', endsAt: now + duration, duration } };
+  }
+
+  return state.timer ? { ...state, timer: undefined } : state;
+}
+
+/**
+ * Apply the end of the running countdown: skip a silent speaker,
+ * or close the vote with the votes cast so far
+ * @param state The current game state
+ * @param now The current time in milliseconds
+ */
+export function expireTimer(state: GameState, now: number): GameState {
+  const { timer } = state;
+  if (!timer || timer.endsAt > now) return state;
+
+  if (timer.kind === 'speaker' && state.phase === 'wordReveal') {
+    return {
+      ...state,
+      timer: undefined,
+      players: state.players.map(p => (p.id === timer.playerId ? { ...p, turnSkipped: true } : p)),
+    };
+  }
+
+  if (timer.kind === 'voting' && state.phase === 'voting') {
+    return tallyVotes({ ...state, timer: undefined });
+  }
+
+  return { ...state, timer: undefined };
+}
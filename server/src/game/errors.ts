@@ -0,0 +1,15 @@
+import { GameErrorCode } from '../types/game';
+
+/**
+ * Error thrown when an intent is not allowed in the current game state.
+ * Errors that clients show in the player's language carry a code to translate.
+ */
+export class GameEngineError extends Error {
+  readonly code?: GameErrorCode;
+
+  constructor(message: string, code?: GameErrorCode) {
+    super(message);
+    this.name = 'GameEngineError';
+    this.code = code;
+  }
+}
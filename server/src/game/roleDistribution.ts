@@ -1,4 +1,4 @@
-import { RoleDistribution } from "@/types/game";
+import { RoleDistribution } from "../types/game";
 
 export const DEFAULT_DISTRIBUTIONS: Record<number, RoleDistribution> = {
   4: { undercovers: 1, mrWhites: 0 },
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { createGameState } from './engine';
+import { getPlayerView, withRemainingTime } from './visibility';
+import { GameState } from '../types/game';
+
+function createRunningGame(): GameState {
+  return {
+    ...createGameState(),
+    phase: 'wordReveal',
+    currentRound: 1,
+    majorityWord: 'Cat',
+    undercoverWord: 'Dog',
+    majorityWordAliases: ['Kitty'],
+    undercoverWordAliases: ['Puppy'],
+    players: [
+      { id: 'civilian', name: 'Alice', role: 'civilian', word: 'Cat' },
+      { id: 'undercover', name: 'Bob', role: 'undercover', word: 'Dog' },
+      { id: 'mrwhite', name: 'Carol', role: 'mrwhite', word: '' },
+      { id: 'out', name: 'Dave', role: 'civilian', word: 'Cat', isEliminated: true },
+    ],
+  };
+}
+
+describe('getPlayerView', () => {
+  it('shows the viewer only their own word and role', () => {
+    const view = getPlayerView(createRunningGame(), 'undercover');
+
+    expect(view.players.find(p => p.id === 'undercover')).toMatchObject({ role: 'undercover', word: 'Dog' });
+    ['civilian', 'mrwhite'].forEach(id => {
+      const player = view.players.find(p => p.id === id);
+      expect(player).not.toHaveProperty('role');
+      expect(player).not.toHaveProperty('word');
+    });
+    expect(view.majorityWord).toBe('');
+    expect(view.undercoverWord).toBe('');
+    expect(view.majorityWordAliases).toBeUndefined();
+    expect(view.undercoverWordAliases).toBeUndefined();
+    expect(view.eventLog).toEqual([]);
+  });
+
+  it('reveals the roles of eliminated players but not their words', () => {
+    const view = getPlayerView(createRunningGame(), 'civilian');
+
+    const eliminatedPlayer = view.players.find(p => p.id === 'out');
+    expect(eliminatedPlayer?.role).toBe('civilian');
+    expect(eliminatedPlayer).not.toHaveProperty('word');
+  });
+
+  it('reveals the role of the player voted out on the results screen', () => {
+    const state: GameState = { ...createRunningGame(), phase: 'results', lastEliminatedId: 'mrwhite' };
+
+    expect(getPlayerView(state, 'civilian').players.find(p => p.id === 'mrwhite')?.role).toBe('mrwhite');
+  });
+
+  it('shows everything once the game has ended', () => {
+    const state: GameState = { ...createRunningGame(), phase: 'gameEnd', winner: 'civilian' };
+
+    expect(getPlayerView(state, 'mrwhite')).toEqual(state);
+  });
+
+  it('shows the majority word to the player judging a close guess', () => {
+    const state: GameState = {
+      ...createRunningGame(),
+      mrWhiteGuess: 'cats',
+      mrWhiteGuessVerdict: 'pendingReview',
+      mrWhiteGuesserId: 'mrwhite',
+      mrWhiteGuessReviewerId: 'undercover',
+    };
+
+    expect(getPlayerView(state, 'undercover')).toMatchObject({ majorityWord: 'Cat', majorityWordAliases: ['Kitty'], undercoverWord: '' });
+    expect(getPlayerView(state, 'mrwhite').majorityWord).toBe('');
+    expect(getPlayerView({ ...state, mrWhiteGuessVerdict: 'wrong' }, 'undercover').majorityWord).toBe('');
+  });
+
+  it('shows spectators everything if the host allows it', () => {
+    const state: GameState = { ...createRunningGame(), spectators: [{ id: 'watcher', name: 'Eve' }] };
+
+    expect(getPlayerView(state, 'watcher').majorityWord).toBe('');
+    const allowed: GameState = { ...state, settings: { ...state.settings, spectatorsSeeRoles: true } };
+    expect(getPlayerView(allowed, 'watcher')).toEqual(allowed);
+  });
+
+  it('does not change the full state', () => {
+    const state = createRunningGame();
+    getPlayerView(state, 'civilian');
+
+    expect(state).toEqual(createRunningGame());
+  });
+});
+
+describe('withRemainingTime', () => {
+  it('adds the time left on the countdown', () => {
+    const state: GameState = { ...createRunningGame(), timer: { kind: 'voting', endsAt: 31000, duration: 30000 } };
+
+    expect(withRemainingTime(state, 11000).timer).toEqual({ kind: 'voting', endsAt: 31000, duration: 30000, remainingMs: 20000 });
+    expect(withRemainingTime(state, 40000).timer?.remainingMs).toBe(0);
+  });
+
+  it('leaves a state without a countdown alone', () => {
+    const state = createRunningGame();
+
+    expect(withRemainingTime(state, 1000)).toBe(state);
+  });
+});
@@ -0,0 +1,58 @@
+import { GameState, Player } from '../types/game';
+
+/**
+ * Check whether everyone may see a player's role
+ * @param state The current game state
+ * @param player The player whose role might be revealed
+ */
+function isRoleRevealed(state: GameState, player: Player): boolean {
+  if (player.isEliminated) return true;
+  // The voted-out player is revealed on the results screen before being marked eliminated
+  return state.phase === 'results' && player.id === state.lastEliminatedId;
+}
+
+/**
+ * Project the game state as seen by one player.
+ *
+ * A player only sees their own word and role, plus the roles of revealed players.
+ * The secret words of the pair and the event log stay hidden until the game
+ * has ended, at which point everyone receives the full state. Spectators see
+ * everything if the host allows it, and the player judging a close guess of
+ * Mr. White sees the majority word to compare it with.
+ * @param state The full game state
+ * @param viewerId The ID of the player receiving the state
+ * @returns A copy of the state that is safe to send to the viewer
+ */
+export function getPlayerView(state: GameState, viewerId: string): GameState {
+  if (state.phase === 'gameEnd') return state;
+  if (state.settings.spectatorsSeeRoles && state.spectators.some(p => p.id === viewerId)) return state;
+
+  const players = state.players.map(player => {
+    if (player.id === viewerId) return player;
+
+    const { word, role, ...publicPlayer } = player;
+    return isRoleRevealed(state, player) ? { ...publicPlayer, role } : publicPlayer;
+  });
+
+  const isGuessReviewer = state.mrWhiteGuessVerdict === 'pendingReview' && state.mrWhiteGuessReviewerId === viewerId;
+  return {
+    ...state,
+    players,
+    majorityWord: isGuessReviewer ? state.majorityWord : '',
+    undercoverWord: '',
+    majorityWordAliases: isGuessReviewer ? state.majorityWordAliases : undefined,
+    undercoverWordAliases: undefined,
+    eventLog: [],
+  };
+}
+
+/**
+ * Add the time left on the running countdown to a state about to be sent.
+ * Clients count down from it instead of comparing endsAt with their own clock, which may be off.
+ * @param state The full game state
+ * @param now The current server time in milliseconds
+ */
+export function withRemainingTime(state: GameState, now: number): GameState {
+  if (!state.timer) return state;
+  return { ...state, timer: { ...state.timer, remainingMs: Math.max(state.timer.endsAt - now, 0) } };
+}
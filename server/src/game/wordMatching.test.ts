@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { containsWord, matchGuess } from './wordMatching';
+import { GUESS_STRICTNESS_LEVELS } from './engine';
+
+describe('containsWord', () => {
+  it('ignores case and diacritics', () => {
+    expect(containsWord('I drink KAFFEE', 'Kaffée')).toBe(true);
+    expect(containsWord('eine grosse Strasse', 'Straße')).toBe(true);
+  });
+
+  it('finds the plural of the word', () => {
+    expect(containsWord('Two PIZZAS please', 'Pizza')).toBe(true);
+    expect(containsWord('Big cities', 'City')).toBe(true);
+    expect(containsWord('Empty glasses', 'Glass')).toBe(true);
+  });
+
+  it('ignores words that only share the beginning', () => {
+    expect(containsWord('you win', 'Wine')).toBe(false);
+    expect(containsWord('I care', 'Car')).toBe(false);
+    expect(containsWord('cows say moo', 'Moon')).toBe(false);
+    expect(containsWord('a flight plan', 'Plane')).toBe(false);
+  });
+
+  it('finds words written together or apart', () => {
+    expect(containsWord('icecream in summer', 'Ice cream')).toBe(true);
+    expect(containsWord('ice, cream and cake', 'Ice cream')).toBe(true);
+    expect(containsWord('two icecreams', 'Ice cream')).toBe(true);
+    expect(containsWord('a chocolate icecream sandwich', 'Ice cream sandwich')).toBe(true);
+  });
+
+  it('does not join words across their boundaries', () => {
+    expect(containsWord('nice cream', 'Ice cream')).toBe(false);
+    expect(containsWord('price creamy', 'Ice cream')).toBe(false);
+  });
+
+  it('finds longer words in compounds only', () => {
+    expect(containsWord('eine Kaffeetasse', 'Kaffee')).toBe(true);
+    expect(containsWord('a long beard', 'Bear')).toBe(false);
+  });
+
+  it('ignores texts without the word', () => {
+    expect(containsWord('A pet that barks', 'Cat')).toBe(false);
+    expect(containsWord('Anything', ' ')).toBe(false);
+  });
+});
+
+describe('matchGuess', () => {
+  it('ignores case and diacritics', () => {
+    expect(matchGuess('CAFE', 'Café', [], 'strict')).toBe('match');
+    expect(matchGuess('strasse', 'Straße', [], 'strict')).toBe('match');
+  });
+
+  it('accepts aliases', () => {
+    expect(matchGuess('soccer', 'Football', ['Soccer'], 'strict')).toBe('match');
+  });
+
+  it('accepts plurals unless the room is strict', () => {
+    expect(matchGuess('pizzas', 'Pizza', [], 'normal')).toBe('match');
+    expect(matchGuess('pizzas', 'Pizza', [], 'lenient')).toBe('match');
+    expect(matchGuess('pizzas', 'Pizza', [], 'strict')).toBe('close');
+  });
+
+  it('forgives typos depending on the strictness and the length of the word', () => {
+    expect(matchGuess('elephnt', 'Elephant', [], 'normal')).toBe('match');
+    expect(matchGuess('elephnt', 'Elephant', [], 'strict')).toBe('close');
+    expect(matchGuess('elefant', 'Elephant', [], 'lenient')).toBe('match');
+    expect(matchGuess('elefant', 'Elephant', [], 'normal')).toBe('close');
+    expect(matchGuess('cot', 'Cat', [], 'lenient')).toBe('miss');
+  });
+
+  it.each([
+    ['plan', 'Plane'],
+    ['cater', 'Cat'],
+    ['win', 'Wine'],
+    ['care', 'Car'],
+    ['moo', 'Moon'],
+    ['Kinder', 'Kind'],
+  ])('leaves "%s" for "%s" to the host', (guess, word) => {
+    GUESS_STRICTNESS_LEVELS.forEach(strictness => {
+      expect(matchGuess(guess, word, [], strictness)).toBe('close');
+    });
+  });
+
+  it('rejects other words', () => {
+    expect(matchGuess('dog', 'Cat', [], 'lenient')).toBe('miss');
+    expect(matchGuess('', 'Cat', [], 'lenient')).toBe('miss');
+  });
+});
@@ -0,0 +1,169 @@
+import { GuessStrictness } from '../types/game';
+
+/**
+ * Comparison of free-text input with the secret words, used to spot them in descriptions
+ * and to judge Mr. White's guess. Case, diacritics and English plurals are forgiven,
+ * so "Äpfel" and "apfel" or "pizzas" and "pizza" count as the same word.
+ */
+
+// Whether a guess counts, is close enough for the host to decide, or is wrong
+export type GuessMatch = 'match' | 'close' | 'miss';
+
+const MIN_STEM_LENGTH = 3;
+
+// A guess that only adds or drops up to this many letters at the end is left to the host,
+// e.g. "Kinder" for "Kind", but also "plan" for "plane"
+const MAX_ENDING_DIFFERENCE = 3;
+
+// Compound words only count as containing a secret word of at least this length,
+// so "Kaffeetasse" contains "Kaffee" but "beard" does not contain "bear"
+const MIN_COMPOUND_PART_LENGTH = 5;
+
+/**
+ * Lowercase a text and remove diacritics, e.g. "Kafféé" becomes "kaffee"
+ */
+export function normalizeWord(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '');
+}
+
+/**
+ * Split a text into its normalized words
+ */
+export function getNormalizedTokens(text: string): string[] {
+  return normalizeWord(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * Get the singulars an English plural may come from, e.g. "glass" for "glasses" or "city" for "cities".
+ * Endings that also end ordinary words, like the "e" of "plane" or the "er" of "cater", are left alone.
+ */
+function getSingularForms(word: string): string[] {
+  const forms: string[] = [];
+  if (word.endsWith('ies')) forms.push(`${word.slice(0, -3)}y`);
+  if (/(s|x|z|ch|sh)es$/.test(word)) forms.push(word.slice(0, -2));
+  if (word.endsWith('s') && !word.endsWith('ss')) forms.push(word.slice(0, -1));
+  return forms.filter(form => form.length >= MIN_STEM_LENGTH);
+}
+
+/**
+ * Check whether a normalized token is a word itself or its plural, e.g. "pizzas" for "pizza"
+ */
+export function isInflectionOf(token: string, word: string): boolean {
+  return token === word || getSingularForms(token).includes(word);
+}
+
+function isSameWord(token: string, word: string): boolean {
+  if (isInflectionOf(token, word)) return true;
+  return word.length >= MIN_COMPOUND_PART_LENGTH && (token.startsWith(word) || token.endsWith(word));
+}
+
+/**
+ * Check whether a run of consecutive tokens spells a word written as one, e.g. "ice" and "cream" for "icecream".
+ * Runs start and end with whole tokens, so "nice cream" does not spell "icecream".
+ */
+function spellsJoinedWord(textTokens: string[], joinedWord: string): boolean {
+  for (let start = 0; start < textTokens.length; start++) {
+    if (isSameWord(textTokens[start], joinedWord)) return true;
+
+    let run = textTokens[start];
+    for (let end = start + 1; end < textTokens.length && run.length < joinedWord.length; end++) {
+      run += textTokens[end];
+      if (isInflectionOf(run, joinedWord)) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Check whether a text uses a word, including its plural and compounds
+ * @param text The text to search, e.g. a description
+ * @param word The word to look for, which may consist of several words like "Ice cream"
+ */
+export function containsWord(text: string, word: string): boolean {
+  const wordTokens = getNormalizedTokens(word);
+  const textTokens = getNormalizedTokens(text);
+  if (wordTokens.length === 0) return false;
+
+  // Words written together or apart, like "icecream" for "Ice cream"
+  if (wordTokens.length > 1 && spellsJoinedWord(textTokens, wordTokens.join(''))) return true;
+
+  return textTokens.some((_, start) =>
+    wordTokens.every((wordToken, offset) => {
+      const token = textTokens[start + offset];
+      return token !== undefined && isSameWord(token, wordToken);
+    })
+  );
+}
+
+/**
+ * Count the insertions, deletions and substitutions needed to turn one text into another
+ */
+export function getEditDistance(a: string, b: string): number {
+  let previousRow = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previousRow[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      row.push(Math.min(previousRow[j] + 1, row[j - 1] + 1, substitution));
+    }
+    previousRow = row;
+  }
+  return previousRow[b.length];
+}
+
+// How many typos a guess may contain and still count, depending on the length of the word
+function getAllowedTypos(length: number, strictness: GuessStrictness): number {
+  switch (strictness) {
+    case 'strict':
+      return 0;
+    case 'lenient':
+      return length >= 8 ? 2 : length >= 4 ? 1 : 0;
+    default:
+      return length >= 5 ? 1 : 0;
+  }
+}
+
+function matchWord(guess: string, word: string, strictness: GuessStrictness): GuessMatch {
+  const guessTokens = getNormalizedTokens(guess);
+  const wordTokens = getNormalizedTokens(word);
+  if (guessTokens.length === 0 || wordTokens.length === 0) return 'miss';
+  if (guessTokens.join('') === wordTokens.join('')) return 'match';
+
+  // Plurals only count as correct when the room is not strict
+  if (guessTokens.length === wordTokens.length && guessTokens.every((token, i) => isInflectionOf(token, wordTokens[i]))) {
+    return strictness === 'strict' ? 'close' : 'match';
+  }
+
+  // Other endings may make a different word, so they are never accepted on their own
+  const normalizedGuess = guessTokens.join(' ');
+  const normalizedWord = wordTokens.join(' ');
+  if (normalizedGuess.startsWith(normalizedWord) || normalizedWord.startsWith(normalizedGuess)) {
+    const isCloseEnough = Math.min(normalizedGuess.length, normalizedWord.length) >= MIN_STEM_LENGTH
+      && Math.abs(normalizedGuess.length - normalizedWord.length) <= MAX_ENDING_DIFFERENCE;
+    return isCloseEnough ? 'close' : 'miss';
+  }
+
+  const distance = getEditDistance(normalizedGuess, normalizedWord);
+  const allowedTypos = getAllowedTypos(normalizedWord.length, strictness);
+  if (distance <= allowedTypos) return 'match';
+  return distance === allowedTypos + 1 && normalizedWord.length >= 4 ? 'close' : 'miss';
+}
+
+/**
+ * Compare Mr. White's guess with the majority word and its aliases
+ * @param guess The guess as typed
+ * @param word The majority word
+ * @param aliases Other accepted spellings or names of the word
+ * @param strictness How forgiving the room is with typos and plurals
+ * @returns "match" if the guess counts, "close" if it is borderline, "miss" otherwise
+ */
+export function matchGuess(guess: string, word: string, aliases: string[], strictness: GuessStrictness): GuessMatch {
+  const matches = [word, ...aliases].map(candidate => matchWord(guess, candidate, strictness));
+  if (matches.includes('match')) return 'match';
+  return matches.includes('close') ? 'close' : 'miss';
+}
@@ -0,0 +1,327 @@
+import { WordPair } from '../../types/game';
+
+const wordPairs: WordPair[] = [
+  // Tiere
+  { words: ['Hund', 'Katze'], category: 'animals', difficulty: 'easy' },
+  { words: ['Hund', 'Wolf'], category: 'animals', difficulty: 'medium' },
+  { words: ['Maus', 'Ratte'], category: 'animals', difficulty: 'hard' },
+  { words: ['Papagei', 'Krähe'], category: 'animals', difficulty: 'medium' },
+  { words: ['Fledermaus', 'Eule'], category: 'animals', difficulty: 'medium' },
+  { words: ['Qualle', 'Tintenfisch'], category: 'animals', difficulty: 'medium' },
+  { words: ['Wolf', 'Fuchs'], category: 'animals', difficulty: 'medium' },
+  { words: ['Tiger', 'Gepard'], category: 'animals', difficulty: 'hard' },
+  { words: ['Hai', 'Delfin'], category: 'animals', difficulty: 'medium' },
+  { words: ['Pinguin', 'Möwe'], category: 'animals', difficulty: 'medium' },
+  { words: ['Giraffe', 'Zebra'], category: 'animals', difficulty: 'medium' },
+  { words: ['Elefant', 'Nashorn'], category: 'animals', difficulty: 'medium' },
+  { words: ['Skorpion', 'Spinne'], category: 'animals', difficulty: 'medium' },
+  { words: ['Tintenfisch', 'Oktopus'], category: 'animals', difficulty: 'hard' },
+
+  // Essen & Trinken
+  { words: ['Pizza', 'Burger'], category: 'food', difficulty: 'easy' },
+  { words: ['Kaffee', 'Tee'], category: 'food', difficulty: 'medium' },
+  { words: ['Banane', 'Apfel'], category: 'food', difficulty: 'easy' },
+  { words: ['Sushi', 'Pizza'], category: 'food', difficulty: 'easy' },
+  { words: ['Hamburger', 'Hotdog'], category: 'food', difficulty: 'medium' },
+  { words: ['Schokolade', 'Vanille'], category: 'food', difficulty: 'medium' },
+  { words: ['Bier', 'Wein'], category: 'food', difficulty: 'medium', ageRating: 'adult' },
+  { words: ['Whiskey', 'Wodka'], category: 'food', difficulty: 'medium', ageRating: 'adult' },
+  { words: ['Milch', 'Saft'], category: 'food', difficulty: 'easy' },
+  { words: ['Brot', 'Butter'], category: 'food', difficulty: 'easy' },
+  { words: ['Reis', 'Nudeln'], category: 'food', difficulty: 'medium' },
+  { words: ['Hühnchen', 'Rindfleisch'], category: 'food', difficulty: 'medium' },
+  { words: ['Apfel', 'Orange'], category: 'food', difficulty: 'easy' },
+  { words: ['Banane', 'Erdbeere'], category: 'food', difficulty: 'easy' },
+  { words: ['Karotte', 'Brokkoli'], category: 'food', difficulty: 'easy' },
+  { words: ['Kartoffel', 'Tomate'], category: 'food', difficulty: 'easy' },
+  { words: ['Zwiebel', 'Knoblauch'], category: 'food', difficulty: 'hard' },
+  { words: ['Salz', 'Pfeffer'], category: 'food', difficulty: 'medium' },
+  { words: ['Zucker', 'Honig'], category: 'food', difficulty: 'medium' },
+  { words: ['Wasser', 'Limonade'], category: 'food', difficulty: 'easy' },
+  { words: ['Pfannkuchen', 'Donut'], category: 'food', difficulty: 'medium' },
+  { words: ['Eiscreme', 'Kuchen'], category: 'food', difficulty: 'easy' },
+  { words: ['Pizza', 'Pasta'], category: 'food', difficulty: 'medium' },
+  { words: ['Apfel', 'Birne'], category: 'food', difficulty: 'medium' },
+  { words: ['Pizza', 'Lasagne'], category: 'food', difficulty: 'medium' },
+  { words: ['Salz', 'Zucker'], category: 'food', difficulty: 'medium' },
+  { words: ['Gurke', 'Zucchini'], category: 'food', difficulty: 'hard' },
+  { words: ['Erdbeere', 'Himbeere'], category: 'food', difficulty: 'hard' },
+  { words: ['Banane', 'Kochbanane'], category: 'food', difficulty: 'hard' },
+  { words: ['Kokosnuss', 'Ananas'], category: 'food', difficulty: 'medium' },
+  { words: ['Brot', 'Toast'], category: 'food', difficulty: 'hard' },
+  { words: ['Tortilla', 'Taco'], category: 'food', difficulty: 'hard' },
+  { words: ['Baguette', 'Ciabatta'], category: 'food', difficulty: 'hard' },
+  { words: ['Hot Dog', 'Bratwurst'], category: 'food', difficulty: 'hard' },
+  { words: ['Energy Drink', 'Limonade'], category: 'food', difficulty: 'medium' },
+  { words: ['Kokosmilch', 'Sojamilch'], category: 'food', difficulty: 'hard' },
+
+  // Marken
+  { words: ['Adidas', 'Nike'], category: 'brands', difficulty: 'hard' },
+  { words: ['Apple', 'Microsoft'], category: 'brands', difficulty: 'medium' },
+  { words: ['Google', 'Facebook'], category: 'brands', difficulty: 'medium' },
+  { words: ['Amazon', 'Netflix'], category: 'brands', difficulty: 'medium' },
+  { words: ['McDonalds', 'KFC'], category: 'brands', difficulty: 'medium' },
+  { words: ['Facebook', 'Instagram'], category: 'brands', difficulty: 'medium' },
+  { words: ['Bitcoin', 'Ethereum'], category: 'brands', difficulty: 'hard' },
+  { words: ['Lego', 'Playmobil'], category: 'brands', difficulty: 'hard' },
+  { words: ['Twitch', 'Netflix'], category: 'brands', difficulty: 'medium' },
+  { words: ['Twitter', 'Facebook'], category: 'brands', difficulty: 'medium' },
+  { words: ['SpaceX', 'Tesla'], category: 'brands', difficulty: 'medium' },
+  { words: ['Burger King', 'McDonald’s'], category: 'brands', difficulty: 'hard' },
+  { words: ['Sony', 'Samsung'], category: 'brands', difficulty: 'medium' },
+  { words: ['Mercedes', 'BMW'], category: 'brands', difficulty: 'hard' },
+  { words: ['Tesla', 'Porsche'], category: 'brands', difficulty: 'medium' },
+  { words: ['iPhone', 'Samsung'], category: 'brands', difficulty: 'medium' },
+  { words: ['PlayStation', 'Xbox'], category: 'brands', difficulty: 'hard' },
+  { words: ['Windows', 'MacOS'], category: 'brands', difficulty: 'medium' },
+  { words: ['YouTube', 'TikTok'], category: 'brands', difficulty: 'medium' },
+  { words: ['Twitch', 'Kick'], category: 'brands', difficulty: 'hard' },
+  { words: ['Spotify', 'Apple Music'], category: 'brands', difficulty: 'hard' },
+  { words: ['Reddit', 'Discord'], category: 'brands', difficulty: 'medium' },
+  { words: ['Instagram', 'Snapchat'], category: 'brands', difficulty: 'medium' },
+  { words: ['ChatGPT', 'Gemini'], category: 'brands', difficulty: 'hard' },
+  { words: ['Ferrari', 'Lamborghini'], category: 'brands', difficulty: 'hard' },
+  { words: ['Coca-Cola', 'Pepsi'], category: 'brands', difficulty: 'hard' },
+
+  // Berühmte Personen & Figuren
+  { words: ['Harry Potter', 'Lord Voldemort'], category: 'people', difficulty: 'medium' },
+  { words: ['Superman', 'Batman'], category: 'people', difficulty: 'medium' },
+  { words: ['Spiderman', 'Ironman'], category: 'people', difficulty: 'medium' },
+  { words: ['Captain America', 'Thor'], category: 'people', difficulty: 'medium' },
+  { words: ['Einstein', 'Newton'], category: 'people', difficulty: 'medium' },
+  { words: ['Elvis', 'The Beatles'], category: 'people', difficulty: 'medium' },
+  { words: ['Leonardo da Vinci', 'Michelangelo'], category: 'people', difficulty: 'hard' },
+  { words: ['Napoleon', 'Cäsar'], category: 'people', difficulty: 'medium' },
+  { words: ['Mario', 'Luigi'], category: 'people', difficulty: 'hard' },
+  { words: ['Sonic', 'Tails'], category: 'people', difficulty: 'hard' },
+  { words: ['Sherlock Holmes', 'Hercule Poirot'], category: 'people', difficulty: 'hard' },
+  { words: ['Dracula', 'Frankenstein'], category: 'people', difficulty: 'medium' },
+  { words: ['James Bond', 'Geheimdienst'], category: 'people', difficulty: 'medium' },
+  { words: ['Homer Simpson', 'Peter Griffin'], category: 'people', difficulty: 'medium' },
+  { words: ['SpongeBob', 'Patrick'], category: 'people', difficulty: 'medium' },
+  { words: ['Godzilla', 'King Kong'], category: 'people', difficulty: 'medium' },
+  { words: ['Hitler', 'Stalin'], category: 'people', difficulty: 'medium', ageRating: 'teen' },
+  { words: ['Thor', 'Blitz'], category: 'people', difficulty: 'easy' },
+  { words: ['Obi Wan', 'Macht'], category: 'people', difficulty: 'medium' },
+  { words: ['Picasso', 'Van Gogh'], category: 'people', difficulty: 'medium' },
+  { words: ['Mozart', 'Beethoven'], category: 'people', difficulty: 'hard' },
+  { words: ['Messi', 'Ronaldo'], category: 'people', difficulty: 'medium' },
+  { words: ['Jesus', 'Weihnachtsmann'], category: 'people', difficulty: 'medium' },
+
+  // Filme, Musik & Spiele
+  { words: ['Klavier', 'Gitarre'], category: 'entertainment', difficulty: 'easy' },
+  { words: ['Herr der Ringe', 'Der Hobbit'], category: 'entertainment', difficulty: 'hard' },
+  { words: ['Musik', 'Tanzen'], category: 'entertainment', difficulty: 'easy' },
+  { words: ['Gemälde', 'Skizze'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Ballett', 'Hip Hop'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Radio', 'Podcast'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Online Nachrichten', 'Zeitung'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Pac-Man', 'Tetris'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Fortnite', 'Minecraft'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Call of Duty', 'Battlefield'], category: 'entertainment', difficulty: 'hard', ageRating: 'teen' },
+  { words: ['Game of Thrones', 'Herr der Ringe'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Star Wars', 'Star Trek'], category: 'entertainment', difficulty: 'hard' },
+  { words: ['Harry Potter', 'Percy Jackson'], category: 'entertainment', difficulty: 'hard' },
+  { words: ['UNO', 'Monopoly'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Catan', 'Risiko'], category: 'entertainment', difficulty: 'hard' },
+  { words: ['Blackjack', 'Poker'], category: 'entertainment', difficulty: 'medium', ageRating: 'adult' },
+  { words: ['Bingo', 'Roulette'], category: 'entertainment', difficulty: 'medium', ageRating: 'adult' },
+  { words: ['Puzzle', 'Kreuzworträtsel'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Kartenspiel', 'Würfel'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Konzert', 'Festival'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Netflix', 'Kino'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Roman', 'Gedicht'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Enzyklopädie', 'Wörterbuch'], category: 'entertainment', difficulty: 'hard' },
+  { words: ['Film', 'Schauspieler'], category: 'entertainment', difficulty: 'easy' },
+  { words: ['Techno', 'Rap'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Rock', 'Pop'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Buch', 'Zeitung'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Kino', 'Bowling'], category: 'entertainment', difficulty: 'easy' },
+  { words: ['Job', 'Hobby'], category: 'entertainment', difficulty: 'easy' },
+
+  // Sport
+  { words: ['Fußball', 'Basketball'], category: 'sports', difficulty: 'easy' },
+  { words: ['Fußball', 'Rugby'], category: 'sports', difficulty: 'medium' },
+  { words: ['Tennis', 'Badminton'], category: 'sports', difficulty: 'medium' },
+  { words: ['Skifahren', 'Schnee'], category: 'sports', difficulty: 'easy' },
+  { words: ['Schwimmen', 'Tauchen'], category: 'sports', difficulty: 'medium' },
+  { words: ['Laufen', 'Joggen'], category: 'sports', difficulty: 'hard' },
+  { words: ['Olympia', 'WM'], category: 'sports', difficulty: 'medium' },
+  { words: ['NBA', 'NFL'], category: 'sports', difficulty: 'medium' },
+  { words: ['Golf', 'Cricket'], category: 'sports', difficulty: 'medium' },
+  { words: ['UFC', 'WWE'], category: 'sports', difficulty: 'hard' },
+  { words: ['Surfbrett', 'Skateboard'], category: 'sports', difficulty: 'medium' },
+  { words: ['Baseball', 'Football'], category: 'sports', difficulty: 'medium' },
+  { words: ['Volleyball', 'Basketball'], category: 'sports', difficulty: 'medium' },
+  { words: ['Tischtennis', 'Badminton'], category: 'sports', difficulty: 'hard' },
+  { words: ['Bowling', 'Golf'], category: 'sports', difficulty: 'medium' },
+  { words: ['Marathon', 'Sprint'], category: 'sports', difficulty: 'medium' },
+  { words: ['Fechten', 'Bogenschießen'], category: 'sports', difficulty: 'medium' },
+  { words: ['Boxen', 'Karate'], category: 'sports', difficulty: 'medium' },
+  { words: ['Hockey', 'Fußball'], category: 'sports', difficulty: 'medium' },
+  { words: ['Bayern München', 'Real Madrid'], category: 'sports', difficulty: 'hard' },
+  { words: ['Tischtennis', 'Badminton'], category: 'sports', difficulty: 'hard' },
+
+  // Orte
+  { words: ['Strand', 'Berg'], category: 'places', difficulty: 'easy' },
+  { words: ['Whirlpool', 'Sauna'], category: 'places', difficulty: 'medium' },
+  { words: ['Burg', 'Haus'], category: 'places', difficulty: 'easy' },
+  { words: ['Pyramide', 'Tempel'], category: 'places', difficulty: 'medium' },
+  { words: ['Bibliothek', 'Universität'], category: 'places', difficulty: 'medium' },
+  { words: ['Museum', 'Galerie'], category: 'places', difficulty: 'hard' },
+  { words: ['New York', 'Los Angeles'], category: 'places', difficulty: 'medium' },
+  { words: ['Paris', 'London'], category: 'places', difficulty: 'medium' },
+  { words: ['Rom', 'Athen'], category: 'places', difficulty: 'medium' },
+  { words: ['Sydney', 'Melbourne'], category: 'places', difficulty: 'hard' },
+  { words: ['Rio de Janeiro', 'Buenos Aires'], category: 'places', difficulty: 'hard' },
+  { words: ['Mount Everest', 'Nepal'], category: 'places', difficulty: 'medium' },
+  { words: ['Amazonas', 'Nil'], category: 'places', difficulty: 'medium' },
+  { words: ['Grand Canyon', 'Niagarafälle'], category: 'places', difficulty: 'medium' },
+  { words: ['Taj Mahal', 'Chinesische Mauer'], category: 'places', difficulty: 'medium' },
+  { words: ['Eiffelturm', 'Freiheitsstatue'], category: 'places', difficulty: 'medium' },
+  { words: ['Big Ben', 'Schiefer Turm von Pisa'], category: 'places', difficulty: 'medium' },
+  { words: ['Harvard', 'MIT'], category: 'places', difficulty: 'hard' },
+  { words: ['Oxford', 'Schule'], category: 'places', difficulty: 'medium' },
+  { words: ['Bäckerei', 'Metzgerei'], category: 'places', difficulty: 'medium' },
+  { words: ['Japan', 'China'], category: 'places', difficulty: 'medium' },
+  { words: ['Deutschland', 'Bier'], category: 'places', difficulty: 'easy', ageRating: 'adult' },
+  { words: ['Frankreich', 'Eiffelturm'], category: 'places', difficulty: 'easy' },
+  { words: ['Deutschland', 'Frankreich'], category: 'places', difficulty: 'medium' },
+  { words: ['London', 'Paris'], category: 'places', difficulty: 'medium' },
+  { words: ['Los Angeles', 'New York'], category: 'places', difficulty: 'medium' },
+  { words: ['Big Ben', 'Schiefer Turm von Pisa'], category: 'places', difficulty: 'medium' },
+  { words: ['Freiheitsstatue', 'Eiffelturm'], category: 'places', difficulty: 'medium' },
+  { words: ['Schwimmbad', 'Strand'], category: 'places', difficulty: 'medium' },
+
+  // Natur & Weltall
+  { words: ['Sonne', 'Mond'], category: 'nature', difficulty: 'easy' },
+  { words: ['Fluss', 'See'], category: 'nature', difficulty: 'medium' },
+  { words: ['Ozean', 'Fluss'], category: 'nature', difficulty: 'medium' },
+  { words: ['Vulkan', 'Berg'], category: 'nature', difficulty: 'medium' },
+  { words: ['Wüste', 'Sand'], category: 'nature', difficulty: 'easy' },
+  { words: ['Wolke', 'Nebel'], category: 'nature', difficulty: 'medium' },
+  { words: ['Schnee', 'Hagel'], category: 'nature', difficulty: 'medium' },
+  { words: ['Dschungel', 'Wald'], category: 'nature', difficulty: 'hard' },
+  { words: ['Mond', 'Sonne'], category: 'nature', difficulty: 'easy' },
+  { words: ['Meteor', 'Satellit'], category: 'nature', difficulty: 'medium' },
+  { words: ['Planet', 'Stern'], category: 'nature', difficulty: 'medium' },
+  { words: ['Erdbeben', 'Tsunami'], category: 'nature', difficulty: 'medium' },
+  { words: ['Mond', 'Planet'], category: 'nature', difficulty: 'medium' },
+  { words: ['Komet', 'Asteroid'], category: 'nature', difficulty: 'hard' },
+  { words: ['Brunnen', 'Wasserfall'], category: 'nature', difficulty: 'medium' },
+  { words: ['See', 'Teich'], category: 'nature', difficulty: 'hard' },
+  { words: ['Gold', 'Silber'], category: 'nature', difficulty: 'medium' },
+  { words: ['Platin', 'Gold'], category: 'nature', difficulty: 'hard' },
+  { words: ['Himmel', 'Wolken'], category: 'nature', difficulty: 'easy' },
+  { words: ['Birke', 'Strauch'], category: 'nature', difficulty: 'medium' },
+  { words: ['Wald', 'Park'], category: 'nature', difficulty: 'medium' },
+
+  // Reisen & Verkehr
+  { words: ['Auto', 'Bus'], category: 'travel', difficulty: 'easy' },
+  { words: ['Kreuzfahrt', 'Safari'], category: 'travel', difficulty: 'medium' },
+  { words: ['Rucksack', 'Koffer'], category: 'travel', difficulty: 'medium' },
+  { words: ['Auto', 'Fahrrad'], category: 'travel', difficulty: 'easy' },
+  { words: ['Auto', 'LKW'], category: 'travel', difficulty: 'medium' },
+  { words: ['Flugzeug', 'Hubschrauber'], category: 'travel', difficulty: 'medium' },
+  { words: ['Fahrrad', 'Motorrad'], category: 'travel', difficulty: 'medium' },
+  { words: ['Zug', 'U-Bahn'], category: 'travel', difficulty: 'medium' },
+  { words: ['Aufzug', 'Rolltreppe'], category: 'travel', difficulty: 'hard' },
+  { words: ['Fähre', 'Kreuzfahrt'], category: 'travel', difficulty: 'hard' },
+  { words: ['Karte', 'GPS'], category: 'travel', difficulty: 'medium' },
+  { words: ['Segelboot', 'Yacht'], category: 'travel', difficulty: 'hard' },
+  { words: ['Brücke', 'Tunnel'], category: 'travel', difficulty: 'medium' },
+  { words: ['Bus', 'Straßenbahn'], category: 'travel', difficulty: 'medium' },
+  { words: ['Zug', 'Bus'], category: 'travel', difficulty: 'medium' },
+  { words: ['Boot', 'U-Boot'], category: 'travel', difficulty: 'medium' },
+  { words: ['Zelt', 'Hütte'], category: 'travel', difficulty: 'medium' },
+  { words: ['Kompass', 'Karte'], category: 'travel', difficulty: 'medium' },
+  { words: ['Bordkarte', 'Ausweis'], category: 'travel', difficulty: 'medium' },
+  { words: ['Reisepass', 'Ticket'], category: 'travel', difficulty: 'medium' },
+  { words: ['U-Bahn', 'Taxi'], category: 'travel', difficulty: 'medium' },
+  { words: ['Himmel', 'Jet'], category: 'travel', difficulty: 'easy' },
+  { words: ['Motorrad', 'Roller'], category: 'travel', difficulty: 'hard' },
+  { words: ['Treppe', 'Aufzug'], category: 'travel', difficulty: 'medium' },
+
+  // Alltagsgegenstände
+  { words: ['Parfüm', 'Deo'], category: 'objects', difficulty: 'medium' },
+  { words: ['Turnschuhe', 'Sandalen'], category: 'objects', difficulty: 'medium' },
+  { words: ['Sonnenbrille', 'Taucherbrille'], category: 'objects', difficulty: 'medium' },
+  { words: ['Bleistift', 'Kugelschreiber'], category: 'objects', difficulty: 'hard' },
+  { words: ['Sonnenbrille', 'Taucherbrille'], category: 'objects', difficulty: 'medium' },
+  { words: ['Laptop', 'Tablet'], category: 'objects', difficulty: 'medium' },
+  { words: ['Uhr', 'Ring'], category: 'objects', difficulty: 'medium' },
+  { words: ['Bombe', 'Gewehr'], category: 'objects', difficulty: 'medium', ageRating: 'teen' },
+  { words: ['Hemd', 'Pullover'], category: 'objects', difficulty: 'medium' },
+  { words: ['Messer', 'Schere'], category: 'objects', difficulty: 'medium' },
+  { words: ['Stuhl', 'Bank'], category: 'objects', difficulty: 'medium' },
+  { words: ['Spiegel', 'Fensterscheibe'], category: 'objects', difficulty: 'medium' },
+  { words: ['Schaufel', 'Axt'], category: 'objects', difficulty: 'medium' },
+  { words: ['Uhr', 'Armbanduhr'], category: 'objects', difficulty: 'hard' },
+  { words: ['Regenschirm', 'Sonnenschirm'], category: 'objects', difficulty: 'hard' },
+  { words: ['Anzug', 'Krawatte'], category: 'objects', difficulty: 'medium' },
+  { words: ['Socken', 'Strumpfhosen'], category: 'objects', difficulty: 'hard' },
+  { words: ['Gürtel', 'Jeans'], category: 'objects', difficulty: 'medium' },
+  { words: ['Krone', 'Hut'], category: 'objects', difficulty: 'medium' },
+  { words: ['Kerze', 'Laterne'], category: 'objects', difficulty: 'medium' },
+  { words: ['Kugelschreiber', 'Blatt Papier'], category: 'objects', difficulty: 'easy' },
+  { words: ['Uhr', 'Sonnenuhr'], category: 'objects', difficulty: 'medium' },
+  { words: ['Laptop', 'Desktop'], category: 'objects', difficulty: 'hard' },
+  { words: ['Notizbuch', 'Tagebuch'], category: 'objects', difficulty: 'hard' },
+  { words: ['Löffel', 'Gabel'], category: 'objects', difficulty: 'medium' },
+  { words: ['Teller', 'Schüssel'], category: 'objects', difficulty: 'hard' },
+  { words: ['Jacke', 'Mantel'], category: 'objects', difficulty: 'hard' },
+  { words: ['Schal', 'Krawatte'], category: 'objects', difficulty: 'medium' },
+  { words: ['Stiefel', 'Turnschuhe'], category: 'objects', difficulty: 'medium' },
+  { words: ['Helm', 'Hut'], category: 'objects', difficulty: 'medium' },
+  { words: ['Halskette', 'Armband'], category: 'objects', difficulty: 'medium' },
+  { words: ['Ring', 'Ohrring'], category: 'objects', difficulty: 'medium' },
+  { words: ['Mikrofon', 'Lautsprecher'], category: 'objects', difficulty: 'medium' },
+  { words: ['Kopfhörer', 'Ohrstöpsel'], category: 'objects', difficulty: 'hard' },
+  { words: ['Fernseher', 'Radio'], category: 'objects', difficulty: 'medium' },
+  { words: ['Projektor', 'Leinwand'], category: 'objects', difficulty: 'medium' },
+  { words: ['Taschenrechner', 'Schreibmaschine'], category: 'objects', difficulty: 'medium' },
+  { words: ['Taschenlampe', 'Laterne'], category: 'objects', difficulty: 'hard' },
+  { words: ['Ticket', 'Rechnung'], category: 'objects', difficulty: 'medium' },
+  { words: ['Leinwand', 'Fernseher'], category: 'objects', difficulty: 'hard' },
+  { words: ['Maus', 'Tastatur'], category: 'objects', difficulty: 'medium' },
+  { words: ['Fernseher', 'Laptop'], category: 'objects', difficulty: 'medium' },
+  { words: ['Schrank', 'Vitrine'], category: 'objects', difficulty: 'medium' },
+  { words: ['Heizung', 'Föhn'], category: 'objects', difficulty: 'medium' },
+  { words: ['Lampe', 'Kerze'], category: 'objects', difficulty: 'medium' },
+  { words: ['Kissen', 'Decke'], category: 'objects', difficulty: 'medium' },
+  { words: ['Mikrofon', 'Kamera'], category: 'objects', difficulty: 'medium' },
+  { words: ['Ofen', 'Mikrowelle'], category: 'objects', difficulty: 'medium' },
+  { words: ['Pfanne', 'Topf'], category: 'objects', difficulty: 'hard' },
+  { words: ['Tablet', 'Smartphone'], category: 'objects', difficulty: 'medium' },
+  { words: ['Fenster', 'Tür'], category: 'objects', difficulty: 'easy' },
+  { words: ['Ofen', 'Heizung'], category: 'objects', difficulty: 'medium' },
+  { words: ['Armbanduhr', 'Wecker'], category: 'objects', difficulty: 'medium' },
+  { words: ['Bett', 'Sofa'], category: 'objects', difficulty: 'medium' },
+  { words: ['Glas', 'Tasse'], category: 'objects', difficulty: 'medium' },
+  { words: ['BH', 'Bikini'], category: 'objects', difficulty: 'medium', ageRating: 'teen' },
+
+  // Berufe
+  { words: ['Arzt', 'Chirurg'], category: 'jobs', difficulty: 'hard' },
+  { words: ['Lehrer', 'Professor'], category: 'jobs', difficulty: 'medium' },
+  { words: ['Küchentheke', 'Küchenchef'], category: 'jobs', difficulty: 'easy' },
+  { words: ['Detektiv', 'Verbrecher'], category: 'jobs', difficulty: 'medium' },
+  { words: ['Apotheker', 'Arzt'], category: 'jobs', difficulty: 'medium' },
+  { words: ['Ingenieur', 'Architekt'], category: 'jobs', difficulty: 'medium' },
+  { words: ['Feuerwehrmann', 'Polizist'], category: 'jobs', difficulty: 'medium' },
+  { words: ['Pilot', 'Astronaut'], category: 'jobs', difficulty: 'medium' },
+  { words: ['Richter', 'Strafe'], category: 'jobs', difficulty: 'medium' },
+  { words: ['Bäcker', 'Koch'], category: 'jobs', difficulty: 'medium' },
+  { words: ['Bauer', 'Fischer'], category: 'jobs', difficulty: 'medium' },
+  { words: ['Schmied', 'Zimmermann'], category: 'jobs', difficulty: 'medium' },
+
+  // Sonstiges
+  { words: ['Virus', 'Bakterien'], category: 'other', difficulty: 'hard' },
+  { words: ['Drache', 'Dinosaurier'], category: 'other', difficulty: 'medium' },
+  { words: ['Geist', 'Zombie'], category: 'other', difficulty: 'medium' },
+  { words: ['CIA', 'FBI'], category: 'other', difficulty: 'hard' },
+  { words: ['Himmel', 'Hölle'], category: 'other', difficulty: 'medium' },
+  { words: ['Gott', 'Himmel'], category: 'other', difficulty: 'medium' },
+  { words: ['UFO', 'Drohnen'], category: 'other', difficulty: 'medium' },
+];
+
+export default wordPairs;
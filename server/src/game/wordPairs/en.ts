@@ -0,0 +1,329 @@
+import { WordPair } from '../../types/game';
+
+const wordPairs: WordPair[] = [
+  // Animals
+  { words: ['Dog', 'Cat'], category: 'animals', difficulty: 'easy' },
+  { words: ['Dog', 'Wolf'], category: 'animals', difficulty: 'medium' },
+  { words: ['Mouse', 'Rat'], category: 'animals', difficulty: 'hard' },
+  { words: ['Parrot', 'Crow'], category: 'animals', difficulty: 'medium' },
+  { words: ['Bat', 'Owl'], category: 'animals', difficulty: 'medium' },
+  { words: ['Jellyfish', 'Octopus'], category: 'animals', difficulty: 'medium' },
+  { words: ['Wolf', 'Fox'], category: 'animals', difficulty: 'medium' },
+  { words: ['Hawk', 'Vulture'], category: 'animals', difficulty: 'hard' },
+  { words: ['Lizard', 'Gecko'], category: 'animals', difficulty: 'hard' },
+  { words: ['Shark', 'Dolphin'], category: 'animals', difficulty: 'medium' },
+  { words: ['Penguin', 'Seagull'], category: 'animals', difficulty: 'medium' },
+  { words: ['Giraffe', 'Zebra'], category: 'animals', difficulty: 'medium' },
+  { words: ['Elephant', 'Rhino'], category: 'animals', difficulty: 'medium' },
+  { words: ['Alligator', 'Crocodile'], category: 'animals', difficulty: 'hard' },
+  { words: ['Oyster', 'Clam'], category: 'animals', difficulty: 'hard' },
+
+  // Food & drinks
+  { words: ['Pizza', 'Burger'], category: 'food', difficulty: 'easy' },
+  { words: ['Coffee', 'Tea'], category: 'food', difficulty: 'medium' },
+  { words: ['Banana', 'Apple'], category: 'food', difficulty: 'easy' },
+  { words: ['sushi', 'pizza'], category: 'food', difficulty: 'easy' },
+  { words: ['hamburger', 'hotdog'], category: 'food', difficulty: 'medium' },
+  { words: ['chocolate', 'vanilla'], category: 'food', difficulty: 'medium' },
+  { words: ['beer', 'wine'], category: 'food', difficulty: 'medium', ageRating: 'adult' },
+  { words: ['whiskey', 'vodka'], category: 'food', difficulty: 'medium', ageRating: 'adult' },
+  { words: ['milk', 'juice'], category: 'food', difficulty: 'easy' },
+  { words: ['bread', 'butter'], category: 'food', difficulty: 'easy' },
+  { words: ['rice', 'pasta'], category: 'food', difficulty: 'medium' },
+  { words: ['chicken', 'beef'], category: 'food', difficulty: 'medium' },
+  { words: ['apple', 'orange'], category: 'food', difficulty: 'easy' },
+  { words: ['banana', 'strawberry'], category: 'food', difficulty: 'easy' },
+  { words: ['carrot', 'broccoli'], category: 'food', difficulty: 'easy' },
+  { words: ['potato', 'tomato'], category: 'food', difficulty: 'easy' },
+  { words: ['onion', 'garlic'], category: 'food', difficulty: 'hard' },
+  { words: ['salt', 'pepper'], category: 'food', difficulty: 'medium' },
+  { words: ['sugar', 'honey'], category: 'food', difficulty: 'medium' },
+  { words: ['water', 'soda'], category: 'food', difficulty: 'easy' },
+  { words: ['Pancake', 'Doughnut'], category: 'food', difficulty: 'medium' },
+  { words: ['Ice cream', 'Cake'], category: 'food', difficulty: 'easy' },
+  { words: ['Pizza', 'Pasta'], category: 'food', difficulty: 'medium' },
+  { words: ['Apple', 'Pear'], category: 'food', difficulty: 'medium' },
+  { words: ['Pizza', 'Lasagna'], category: 'food', difficulty: 'medium' },
+  { words: ['Salt', 'Sugar'], category: 'food', difficulty: 'medium' },
+  { words: ['Cucumber', 'Zucchini'], category: 'food', difficulty: 'hard' },
+  { words: ['Strawberry', 'Raspberry'], category: 'food', difficulty: 'hard' },
+  { words: ['Banana', 'Plantain'], category: 'food', difficulty: 'hard' },
+  { words: ['Coconut', 'Pineapple'], category: 'food', difficulty: 'medium' },
+  { words: ['Bread', 'Toast'], category: 'food', difficulty: 'hard' },
+  { words: ['Tortilla', 'Taco'], category: 'food', difficulty: 'hard' },
+  { words: ['Baguette', 'Ciabatta'], category: 'food', difficulty: 'hard' },
+  { words: ['Hot Dog', 'Bratwurst'], category: 'food', difficulty: 'hard' },
+  { words: ['Energy Drink', 'Soda'], category: 'food', difficulty: 'medium' },
+  { words: ['Coconut milk', 'soy milk'], category: 'food', difficulty: 'hard' },
+
+  // Brands
+  { words: ['Adidas', 'Nike'], category: 'brands', difficulty: 'hard' },
+  { words: ['Apple', 'Microsoft'], category: 'brands', difficulty: 'medium' },
+  { words: ['Google', 'Facebook'], category: 'brands', difficulty: 'medium' },
+  { words: ['Amazon', 'Netflix'], category: 'brands', difficulty: 'medium' },
+  { words: ['McDonalds', 'KFC'], category: 'brands', difficulty: 'medium' },
+  { words: ['Facebook', 'Instagram'], category: 'brands', difficulty: 'medium' },
+  { words: ['Bitcoin', 'Ethereum'], category: 'brands', difficulty: 'hard' },
+  { words: ['Lego', 'Playmobil'], category: 'brands', difficulty: 'hard' },
+  { words: ['Twitch', 'Netflix'], category: 'brands', difficulty: 'medium' },
+  { words: ['Twitter', 'Facebook'], category: 'brands', difficulty: 'medium' },
+  { words: ['SpaceX', 'Tesla'], category: 'brands', difficulty: 'medium' },
+  { words: ['Burger King', 'McDonald’s'], category: 'brands', difficulty: 'hard' },
+  { words: ['Sony', 'Samsung'], category: 'brands', difficulty: 'medium' },
+  { words: ['Mercedes', 'BMW'], category: 'brands', difficulty: 'hard' },
+  { words: ['Tesla', 'Porsche'], category: 'brands', difficulty: 'medium' },
+  { words: ['iPhone', 'Samsung'], category: 'brands', difficulty: 'medium' },
+  { words: ['PlayStation', 'Xbox'], category: 'brands', difficulty: 'hard' },
+  { words: ['Windows', 'MacOS'], category: 'brands', difficulty: 'medium' },
+  { words: ['YouTube', 'TikTok'], category: 'brands', difficulty: 'medium' },
+  { words: ['Twitch', 'Kick'], category: 'brands', difficulty: 'hard' },
+  { words: ['Spotify', 'Apple Music'], category: 'brands', difficulty: 'hard' },
+  { words: ['Reddit', 'Discord'], category: 'brands', difficulty: 'medium' },
+  { words: ['Instagram', 'Snapchat'], category: 'brands', difficulty: 'medium' },
+  { words: ['ChatGPT', 'Gemini'], category: 'brands', difficulty: 'hard' },
+  { words: ['Ferrari', 'Lamborghini'], category: 'brands', difficulty: 'hard' },
+  { words: ['Coca-Cola', 'Pepsi'], category: 'brands', difficulty: 'hard' },
+
+  // Famous people & characters
+  { words: ['Harry Potter', 'Lord Voldemort'], category: 'people', difficulty: 'medium' },
+  { words: ['Superman', 'Batman'], category: 'people', difficulty: 'medium' },
+  { words: ['Spiderman', 'Ironman'], category: 'people', difficulty: 'medium' },
+  { words: ['Captain America', 'Thor'], category: 'people', difficulty: 'medium' },
+  { words: ['Einstein', 'Newton'], category: 'people', difficulty: 'medium' },
+  { words: ['Elvis', 'The Beatles'], category: 'people', difficulty: 'medium' },
+  { words: ['Leonardo da Vinci', 'Michelangelo'], category: 'people', difficulty: 'hard' },
+  { words: ['Napoleon', 'Caesar'], category: 'people', difficulty: 'medium' },
+  { words: ['Mario', 'Luigi'], category: 'people', difficulty: 'hard' },
+  { words: ['Sonic', 'Tails'], category: 'people', difficulty: 'hard' },
+  { words: ['Sherlock Holmes', 'Hercule Poirot'], category: 'people', difficulty: 'hard' },
+  { words: ['Dracula', 'Frankenstein'], category: 'people', difficulty: 'medium' },
+  { words: ['James Bond', 'Secret Service'], category: 'people', difficulty: 'medium' },
+  { words: ['Homer Simpson', 'Peter Griffin'], category: 'people', difficulty: 'medium' },
+  { words: ['SpongeBob', 'Patrick'], category: 'people', difficulty: 'medium' },
+  { words: ['Godzilla', 'King Kong'], category: 'people', difficulty: 'medium' },
+  { words: ['Hitler', 'Stalin'], category: 'people', difficulty: 'medium', ageRating: 'teen' },
+  { words: ['Thor', 'Lightning'], category: 'people', difficulty: 'easy' },
+  { words: ['Obi Wan', 'Force'], category: 'people', difficulty: 'medium' },
+  { words: ['Picasso', 'Van Gogh'], category: 'people', difficulty: 'medium' },
+  { words: ['Mozart', 'Beethoven'], category: 'people', difficulty: 'hard' },
+  { words: ['Messi', 'Ronaldo'], category: 'people', difficulty: 'medium' },
+  { words: ['Jesus', 'Santa Claus'], category: 'people', difficulty: 'medium' },
+
+  // Movies, music & games
+  { words: ['piano', 'guitar'], category: 'entertainment', difficulty: 'easy' },
+  { words: ['Lord of the rings', 'Hobbit'], category: 'entertainment', difficulty: 'hard' },
+  { words: ['Music', 'Dancing'], category: 'entertainment', difficulty: 'easy' },
+  { words: ['Painting', 'Sketch'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Ballet', 'Hip Hop'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Radio', 'Podcast'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['online news', 'Newspaper'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Pac-Man', 'Tetris'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Fortnite', 'Minecraft'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Call of Duty', 'Battlefield'], category: 'entertainment', difficulty: 'hard', ageRating: 'teen' },
+  { words: ['Game of Thrones', 'Lord of the Rings'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Star Wars', 'Star Trek'], category: 'entertainment', difficulty: 'hard' },
+  { words: ['Harry Potter', 'Percy Jackson'], category: 'entertainment', difficulty: 'hard' },
+  { words: ['UNO', 'Monopoly'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Catan', 'Risk'], category: 'entertainment', difficulty: 'hard' },
+  { words: ['Blackjack', 'Poker'], category: 'entertainment', difficulty: 'medium', ageRating: 'adult' },
+  { words: ['Bingo', 'Roulette'], category: 'entertainment', difficulty: 'medium', ageRating: 'adult' },
+  { words: ['Puzzle', 'Crossword'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Cards', 'Dice'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Concert', 'Festival'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Novel', 'Poem'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Dictionary', 'Encyclopedia'], category: 'entertainment', difficulty: 'hard' },
+  { words: ['Movie', 'Actor'], category: 'entertainment', difficulty: 'easy' },
+  { words: ['Techno', 'Rap'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Rock', 'Pop'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Book', 'Newspaper'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Cinema', 'Bowling'], category: 'entertainment', difficulty: 'easy' },
+  { words: ['Netflix', 'Cinema'], category: 'entertainment', difficulty: 'medium' },
+  { words: ['Job', 'Hobby'], category: 'entertainment', difficulty: 'easy' },
+
+  // Sports
+  { words: ['Football', 'Basketball'], category: 'sports', difficulty: 'easy' },
+  { words: ['Soccer', 'Rugby'], category: 'sports', difficulty: 'medium' },
+  { words: ['Tennis', 'Badminton'], category: 'sports', difficulty: 'medium' },
+  { words: ['Skiing', 'Snow'], category: 'sports', difficulty: 'easy' },
+  { words: ['Swimming', 'Diving'], category: 'sports', difficulty: 'medium' },
+  { words: ['Running', 'Jogging'], category: 'sports', difficulty: 'hard' },
+  { words: ['Olympics', 'World Cup'], category: 'sports', difficulty: 'medium' },
+  { words: ['NBA', 'NFL'], category: 'sports', difficulty: 'medium' },
+  { words: ['Golf', 'Cricket'], category: 'sports', difficulty: 'medium' },
+  { words: ['UFC', 'WWE'], category: 'sports', difficulty: 'hard' },
+  { words: ['Surfboard', 'Skateboard'], category: 'sports', difficulty: 'medium' },
+  { words: ['Baseball', 'Football'], category: 'sports', difficulty: 'medium' },
+  { words: ['Volleyball', 'Basketball'], category: 'sports', difficulty: 'medium' },
+  { words: ['Table tennis', 'Badminton'], category: 'sports', difficulty: 'hard' },
+  { words: ['Bowling', 'Golf'], category: 'sports', difficulty: 'medium' },
+  { words: ['Marathon', 'Sprint'], category: 'sports', difficulty: 'medium' },
+  { words: ['Fencing', 'Archery'], category: 'sports', difficulty: 'medium' },
+  { words: ['Boxing', 'Karate'], category: 'sports', difficulty: 'medium' },
+  { words: ['Hockey', 'Soccer'], category: 'sports', difficulty: 'medium' },
+  { words: ['Bayern Munich', 'Real Madrid'], category: 'sports', difficulty: 'hard' },
+  { words: ['Table Tennis', 'Badminton'], category: 'sports', difficulty: 'hard' },
+
+  // Places
+  { words: ['Beach', 'Mountain'], category: 'places', difficulty: 'easy' },
+  { words: ['jacuzzi', 'sauna'], category: 'places', difficulty: 'medium' },
+  { words: ['Castle', 'House'], category: 'places', difficulty: 'easy' },
+  { words: ['Pyramid', 'Temple'], category: 'places', difficulty: 'medium' },
+  { words: ['Library', 'University'], category: 'places', difficulty: 'medium' },
+  { words: ['Museum', 'Gallery'], category: 'places', difficulty: 'hard' },
+  { words: ['New York', 'Los Angeles'], category: 'places', difficulty: 'medium' },
+  { words: ['Paris', 'London'], category: 'places', difficulty: 'medium' },
+  { words: ['Rome', 'Athens'], category: 'places', difficulty: 'medium' },
+  { words: ['Sydney', 'Melbourne'], category: 'places', difficulty: 'hard' },
+  { words: ['Rio de Janeiro', 'Buenos Aires'], category: 'places', difficulty: 'hard' },
+  { words: ['Mount Everest', 'Nepal'], category: 'places', difficulty: 'medium' },
+  { words: ['Amazon', 'Nile'], category: 'places', difficulty: 'medium' },
+  { words: ['Grand Canyon', 'Niagara Falls'], category: 'places', difficulty: 'medium' },
+  { words: ['Taj Mahal', 'Great Wall of China'], category: 'places', difficulty: 'medium' },
+  { words: ['Eiffel Tower', 'Statue of Liberty'], category: 'places', difficulty: 'medium' },
+  { words: ['Big Ben', 'Leaning Tower of Pisa'], category: 'places', difficulty: 'medium' },
+  { words: ['Harvard', 'MIT'], category: 'places', difficulty: 'hard' },
+  { words: ['Oxford', 'Highschool'], category: 'places', difficulty: 'medium' },
+  { words: ['Bakery', 'Butcher'], category: 'places', difficulty: 'medium' },
+  { words: ['Germany', 'France'], category: 'places', difficulty: 'medium' },
+  { words: ['Japan', 'China'], category: 'places', difficulty: 'medium' },
+  { words: ['Germany', 'Beer'], category: 'places', difficulty: 'easy', ageRating: 'adult' },
+  { words: ['France', 'Eiffel Tower'], category: 'places', difficulty: 'easy' },
+  { words: ['London', 'Paris'], category: 'places', difficulty: 'medium' },
+  { words: ['Los Angeles', 'New York'], category: 'places', difficulty: 'medium' },
+  { words: ['Big Ben', 'Leaning Tower of Pisa'], category: 'places', difficulty: 'medium' },
+  { words: ['Statue of Liberty', 'Eiffel Tower'], category: 'places', difficulty: 'medium' },
+  { words: ['Swimming Pool', 'Beach'], category: 'places', difficulty: 'medium' },
+
+  // Nature & space
+  { words: ['Sun', 'Moon'], category: 'nature', difficulty: 'easy' },
+  { words: ['River', 'Lake'], category: 'nature', difficulty: 'medium' },
+  { words: ['Ocean', 'River'], category: 'nature', difficulty: 'medium' },
+  { words: ['Volcano', 'Mountain'], category: 'nature', difficulty: 'medium' },
+  { words: ['Desert', 'Sand'], category: 'nature', difficulty: 'easy' },
+  { words: ['Cloud', 'Fog'], category: 'nature', difficulty: 'medium' },
+  { words: ['Snow', 'Hail'], category: 'nature', difficulty: 'medium' },
+  { words: ['Jungle', 'Forest'], category: 'nature', difficulty: 'hard' },
+  { words: ['Moon', 'Sun'], category: 'nature', difficulty: 'easy' },
+  { words: ['Meteor', 'Satellite'], category: 'nature', difficulty: 'medium' },
+  { words: ['Planet', 'Star'], category: 'nature', difficulty: 'medium' },
+  { words: ['Earthquake', 'Tsunami'], category: 'nature', difficulty: 'medium' },
+  { words: ['Moon', 'Planet'], category: 'nature', difficulty: 'medium' },
+  { words: ['Comet', 'Asteroid'], category: 'nature', difficulty: 'hard' },
+  { words: ['Fountain', 'Waterfall'], category: 'nature', difficulty: 'medium' },
+  { words: ['Lake', 'Pond'], category: 'nature', difficulty: 'hard' },
+  { words: ['Gold', 'Silver'], category: 'nature', difficulty: 'medium' },
+  { words: ['Platinum', 'Gold'], category: 'nature', difficulty: 'hard' },
+  { words: ['Sky', 'Clouds'], category: 'nature', difficulty: 'easy' },
+  { words: ['Birch', 'Shrub'], category: 'nature', difficulty: 'medium' },
+  { words: ['Forest', 'Park'], category: 'nature', difficulty: 'medium' },
+
+  // Travel & transport
+  { words: ['Car', 'Bus'], category: 'travel', difficulty: 'easy' },
+  { words: ['cruise', 'safari'], category: 'travel', difficulty: 'medium' },
+  { words: ['backpack', 'suitcase'], category: 'travel', difficulty: 'medium' },
+  { words: ['Car', 'Bike'], category: 'travel', difficulty: 'easy' },
+  { words: ['Car', 'Truck'], category: 'travel', difficulty: 'medium' },
+  { words: ['Plane', 'Helicopter'], category: 'travel', difficulty: 'medium' },
+  { words: ['Bicycle', 'Motorcycle'], category: 'travel', difficulty: 'medium' },
+  { words: ['Train', 'Bus'], category: 'travel', difficulty: 'medium' },
+  { words: ['Elevator', 'Escalator'], category: 'travel', difficulty: 'hard' },
+  { words: ['Ferry', 'Cruise'], category: 'travel', difficulty: 'hard' },
+  { words: ['Map', 'GPS'], category: 'travel', difficulty: 'medium' },
+  { words: ['Sailboat', 'Yacht'], category: 'travel', difficulty: 'hard' },
+  { words: ['Bridge', 'Tunnel'], category: 'travel', difficulty: 'medium' },
+  { words: ['Bus', 'Tram'], category: 'travel', difficulty: 'medium' },
+  { words: ['Train', 'Monorail'], category: 'travel', difficulty: 'hard' },
+  { words: ['Boat', 'Submarine'], category: 'travel', difficulty: 'medium' },
+  { words: ['Tent', 'Cabin'], category: 'travel', difficulty: 'medium' },
+  { words: ['Compass', 'Map'], category: 'travel', difficulty: 'medium' },
+  { words: ['Boarding pass', 'ID card'], category: 'travel', difficulty: 'medium' },
+  { words: ['Passport', 'Ticket'], category: 'travel', difficulty: 'medium' },
+  { words: ['Subway', 'Taxi'], category: 'travel', difficulty: 'medium' },
+  { words: ['Sky', 'Jet'], category: 'travel', difficulty: 'easy' },
+  { words: ['Motorcycle', 'Scooter'], category: 'travel', difficulty: 'hard' },
+  { words: ['Stairs', 'Elevator'], category: 'travel', difficulty: 'medium' },
+
+  // Everyday objects
+  { words: ['Perfume', 'Deodorant'], category: 'objects', difficulty: 'medium' },
+  { words: ['sneakers', 'sandals'], category: 'objects', difficulty: 'medium' },
+  { words: ['sunglasses', 'eyeglasses'], category: 'objects', difficulty: 'hard' },
+  { words: ['Pencil', 'Pen'], category: 'objects', difficulty: 'hard' },
+  { words: ['Sunglasses', 'Goggles'], category: 'objects', difficulty: 'medium' },
+  { words: ['Laptop', 'Tablet'], category: 'objects', difficulty: 'medium' },
+  { words: ['Watch', 'Ring'], category: 'objects', difficulty: 'medium' },
+  { words: ['Bomb', 'Gun'], category: 'objects', difficulty: 'medium', ageRating: 'teen' },
+  { words: ['Shirt', 'Sweater'], category: 'objects', difficulty: 'medium' },
+  { words: ['Knife', 'Scissors'], category: 'objects', difficulty: 'medium' },
+  { words: ['Chair', 'Bench'], category: 'objects', difficulty: 'medium' },
+  { words: ['Mirror', 'window pane'], category: 'objects', difficulty: 'medium' },
+  { words: ['Shovel', 'Axe'], category: 'objects', difficulty: 'medium' },
+  { words: ['Clock', 'Watch'], category: 'objects', difficulty: 'hard' },
+  { words: ['Umbrella', 'Parasol'], category: 'objects', difficulty: 'hard' },
+  { words: ['Suit', 'necktie'], category: 'objects', difficulty: 'medium' },
+  { words: ['Socks', 'Stockings'], category: 'objects', difficulty: 'hard' },
+  { words: ['Belt', 'Jeans'], category: 'objects', difficulty: 'medium' },
+  { words: ['Crown', 'Hat'], category: 'objects', difficulty: 'medium' },
+  { words: ['Candle', 'Lantern'], category: 'objects', difficulty: 'medium' },
+  { words: ['Pen', 'Paper'], category: 'objects', difficulty: 'easy' },
+  { words: ['Clock', 'Sundial'], category: 'objects', difficulty: 'medium' },
+  { words: ['Laptop', 'Desktop'], category: 'objects', difficulty: 'hard' },
+  { words: ['Notebook', 'Diary'], category: 'objects', difficulty: 'hard' },
+  { words: ['Spoon', 'Fork'], category: 'objects', difficulty: 'medium' },
+  { words: ['Plate', 'Bowl'], category: 'objects', difficulty: 'hard' },
+  { words: ['Denim', 'Corduroy'], category: 'objects', difficulty: 'hard' },
+  { words: ['Jacket', 'Coat'], category: 'objects', difficulty: 'hard' },
+  { words: ['Scarf', 'Tie'], category: 'objects', difficulty: 'medium' },
+  { words: ['Boots', 'Sneakers'], category: 'objects', difficulty: 'medium' },
+  { words: ['Helmet', 'Hat'], category: 'objects', difficulty: 'medium' },
+  { words: ['Necklace', 'Bracelet'], category: 'objects', difficulty: 'medium' },
+  { words: ['Ring', 'Earring'], category: 'objects', difficulty: 'medium' },
+  { words: ['Microphone', 'Speaker'], category: 'objects', difficulty: 'medium' },
+  { words: ['Headphones', 'Earbuds'], category: 'objects', difficulty: 'hard' },
+  { words: ['Television', 'Radio'], category: 'objects', difficulty: 'medium' },
+  { words: ['Projector', 'Screen'], category: 'objects', difficulty: 'medium' },
+  { words: ['Calculator', 'Typewriter'], category: 'objects', difficulty: 'medium' },
+  { words: ['Flashlight', 'Lantern'], category: 'objects', difficulty: 'hard' },
+  { words: ['Ticket', 'Invoice'], category: 'objects', difficulty: 'medium' },
+  { words: ['Screen', 'TV'], category: 'objects', difficulty: 'hard' },
+  { words: ['Mouse', 'Keyboard'], category: 'objects', difficulty: 'medium' },
+  { words: ['TV', 'Laptop'], category: 'objects', difficulty: 'medium' },
+  { words: ['Wardrobe', 'Showcase'], category: 'objects', difficulty: 'medium' },
+  { words: ['Radiator', 'Hairdryer'], category: 'objects', difficulty: 'medium' },
+  { words: ['Lamp', 'Candle'], category: 'objects', difficulty: 'medium' },
+  { words: ['Pillow', 'Blanket'], category: 'objects', difficulty: 'medium' },
+  { words: ['Microphone', 'Camera'], category: 'objects', difficulty: 'medium' },
+  { words: ['Oven', 'Microwave'], category: 'objects', difficulty: 'medium' },
+  { words: ['Pan', 'Pot'], category: 'objects', difficulty: 'hard' },
+  { words: ['Tablet', 'Smartphone'], category: 'objects', difficulty: 'medium' },
+  { words: ['Window', 'Door'], category: 'objects', difficulty: 'easy' },
+  { words: ['Oven', 'Heating'], category: 'objects', difficulty: 'medium' },
+  { words: ['Wristwatch', 'Alarm Clock'], category: 'objects', difficulty: 'medium' },
+  { words: ['Bed', 'Sofa'], category: 'objects', difficulty: 'medium' },
+  { words: ['Glass', 'Cup'], category: 'objects', difficulty: 'medium' },
+  { words: ['bra', 'bikini'], category: 'objects', difficulty: 'medium', ageRating: 'teen' },
+
+  // Jobs
+  { words: ['Doctor', 'Surgeon'], category: 'jobs', difficulty: 'hard' },
+  { words: ['Teacher', 'Professor'], category: 'jobs', difficulty: 'medium' },
+  { words: ['Chef', 'Kitchen counter'], category: 'jobs', difficulty: 'easy' },
+  { words: ['Detective', 'Criminal'], category: 'jobs', difficulty: 'medium' },
+  { words: ['Pharmacist', 'Doctor'], category: 'jobs', difficulty: 'medium' },
+  { words: ['Engineer', 'Architect'], category: 'jobs', difficulty: 'medium' },
+  { words: ['Firefighter', 'Policeman'], category: 'jobs', difficulty: 'medium' },
+  { words: ['Pilot', 'Astronaut'], category: 'jobs', difficulty: 'medium' },
+  { words: ['Judge', 'Punishment'], category: 'jobs', difficulty: 'medium' },
+  { words: ['Baker', 'Chef'], category: 'jobs', difficulty: 'medium' },
+  { words: ['Farmer', 'Fisherman'], category: 'jobs', difficulty: 'medium' },
+  { words: ['Blacksmith', 'Carpenter'], category: 'jobs', difficulty: 'medium' },
+
+  // Other
+  { words: ['virus', 'bacteria'], category: 'other', difficulty: 'hard' },
+  { words: ['Dragon', 'Dinosaur'], category: 'other', difficulty: 'medium' },
+  { words: ['Ghost', 'Zombie'], category: 'other', difficulty: 'medium' },
+  { words: ['CIA', 'FBI'], category: 'other', difficulty: 'hard' },
+  { words: ['Heaven', 'Hell'], category: 'other', difficulty: 'medium' },
+  { words: ['God', 'Heaven'], category: 'other', difficulty: 'medium' },
+  { words: ['UFO', 'Drones'], category: 'other', difficulty: 'medium' },
+];
+
+export default wordPairs;
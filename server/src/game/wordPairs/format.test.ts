@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import {
+  exportWordPackCsv,
+  exportWordPackJson,
+  MAX_WORD_PACK_PAIRS,
+  normalizeWordPack,
+  parseWordPackCsv,
+  parseWordPackJson,
+  WordPackData,
+} from './format';
+import { GameEngineError } from '../errors';
+
+const DEFAULTS = { name: 'Imported', language: 'en' };
+
+describe('normalizeWordPack', () => {
+  it('trims the values and drops repeated pairs', () => {
+    const pack = normalizeWordPack({
+      name: ' Animals ',
+      language: 'EN',
+      pairs: [[' Cat ', 'Dog'], ['dog', 'cat'], ['Lion', 'Tiger']],
+    });
+
+    expect(pack).toEqual({ name: 'Animals', language: 'en', pairs: [{ words: ['Cat', 'Dog'] }, { words: ['Lion', 'Tiger'] }] });
+  });
+
+  it('keeps the metadata of a pair', () => {
+    const pack = normalizeWordPack({
+      name: 'Animals',
+      language: 'en',
+      pairs: [{ words: ['Cat', 'Dog'], category: ' Pets ', difficulty: 'easy', ageRating: 'all' }, { words: ['Lion', 'Tiger'], category: '' }],
+    });
+
+    expect(pack.pairs).toEqual([{ words: ['Cat', 'Dog'], category: 'pets', difficulty: 'easy', ageRating: 'all' }, { words: ['Lion', 'Tiger'] }]);
+  });
+
+  it.each([
+    ['no object', null],
+    ['no name', { name: ' ', language: 'en', pairs: [['Cat', 'Dog']] }],
+    ['an invalid language', { name: 'Animals', language: 'english', pairs: [['Cat', 'Dog']] }],
+    ['no pairs', { name: 'Animals', language: 'en', pairs: [] }],
+    ['a pair of three words', { name: 'Animals', language: 'en', pairs: [['Cat', 'Dog', 'Cow']] }],
+    ['a pair of the same word', { name: 'Animals', language: 'en', pairs: [['Cat', 'cat']] }],
+    ['an empty word', { name: 'Animals', language: 'en', pairs: [['Cat', ' ']] }],
+    ['an unknown difficulty', { name: 'Animals', language: 'en', pairs: [{ words: ['Cat', 'Dog'], difficulty: 'extreme' }] }],
+    ['an unknown age rating', { name: 'Animals', language: 'en', pairs: [{ words: ['Cat', 'Dog'], ageRating: 'kids' }] }],
+    ['too many pairs', { name: 'Animals', language: 'en', pairs: Array.from({ length: MAX_WORD_PACK_PAIRS + 1 }, (_, i) => [`a${i}`, `b${i}`]) }],
+  ])('rejects a pack with %s', (_, data) => {
+    expect(() => normalizeWordPack(data)).toThrow(GameEngineError);
+  });
+});
+
+describe('parseWordPackJson', () => {
+  it('reads a full pack', () => {
+    const pack = parseWordPackJson('{"name": "Food", "language": "de", "pairs": [["Apfel", "Birne"]]}', DEFAULTS);
+
+    expect(pack).toEqual({ name: 'Food', language: 'de', pairs: [{ words: ['Apfel', 'Birne'] }] });
+  });
+
+  it('reads a plain list of pairs with the default name and language', () => {
+    expect(parseWordPackJson('[["Sun", "Moon"]]', DEFAULTS)).toEqual({ ...DEFAULTS, pairs: [{ words: ['Sun', 'Moon'] }] });
+  });
+
+  it('rejects files that are not JSON', () => {
+    expect(() => parseWordPackJson('Sun,Moon', DEFAULTS)).toThrow('The file is not valid JSON');
+    expect(() => parseWordPackJson('"Sun"', DEFAULTS)).toThrow('Invalid word pack');
+  });
+});
+
+describe('parseWordPackCsv', () => {
+  it('reads one pair per line and skips blank lines', () => {
+    const pack = parseWordPackCsv('Sun,Moon\r\n\r\nCoffee , Tea\n', DEFAULTS);
+
+    expect(pack.pairs).toEqual([{ words: ['Sun', 'Moon'] }, { words: ['Coffee', 'Tea'] }]);
+  });
+
+  it('reads the optional metadata columns', () => {
+    const pack = parseWordPackCsv('Sun,Moon,Nature,easy\nBeer,Wine,,hard,adult', DEFAULTS);
+
+    expect(pack.pairs).toEqual([
+      { words: ['Sun', 'Moon'], category: 'nature', difficulty: 'easy' },
+      { words: ['Beer', 'Wine'], difficulty: 'hard', ageRating: 'adult' },
+    ]);
+  });
+
+  it('reads quoted cells with commas, quotes and line breaks', () => {
+    const pack = parseWordPackCsv('"Salt, coarse","The ""Pepper"""\n"Ice\ncream",Sorbet', DEFAULTS);
+
+    expect(pack.pairs).toEqual([{ words: ['Salt, coarse', 'The "Pepper"'] }, { words: ['Ice\ncream', 'Sorbet'] }]);
+  });
+
+  it('rejects lines without exactly two words', () => {
+    expect(() => parseWordPackCsv('Sun,Moon\nStar', DEFAULTS)).toThrow('Word pair 2 must consist of two words');
+  });
+});
+
+describe('export', () => {
+  const pack: WordPackData = {
+    name: 'Mixed',
+    language: 'en',
+    pairs: [{ words: ['Salt, coarse', 'The "Pepper"'] }, { words: ['Sun', 'Moon'], category: 'nature', ageRating: 'all' }],
+  };
+
+  it('writes CSV that reads back to the same pairs', () => {
+    const csv = exportWordPackCsv(pack);
+
+    expect(csv).toBe('"Salt, coarse","The ""Pepper"""\nSun,Moon,nature,,all\n');
+    expect(parseWordPackCsv(csv, DEFAULTS).pairs).toEqual(pack.pairs);
+  });
+
+  it('writes JSON that reads back to the same pack', () => {
+    expect(parseWordPackJson(exportWordPackJson(pack), DEFAULTS)).toEqual(pack);
+  });
+});
+
+describe('aliases', () => {
+  it('are keyed by the spelling of their word', () => {
+    const pack = normalizeWordPack({
+      ...DEFAULTS,
+      pairs: [{ words: ['Pizza', 'Pasta'], aliases: { pizza: [' Pizza pie ', 'Pizza pie', ''], Pasta: [] } }],
+    });
+
+    expect(pack.pairs).toEqual([{ words: ['Pizza', 'Pasta'], aliases: { Pizza: ['Pizza pie'] } }]);
+  });
+
+  it('must belong to a word of the pair', () => {
+    expect(() => normalizeWordPack({ ...DEFAULTS, pairs: [{ words: ['Pizza', 'Pasta'], aliases: { Bread: ['Loaf'] } }] }))
+      .toThrow('Word pair 1 has aliases for "Bread", which is not one of its words');
+  });
+
+  it('are read from and written to the last CSV columns', () => {
+    const csv = 'Pizza,Pasta,food,easy,all,Pizza pie|Pie,Noodles\n';
+    const pack = parseWordPackCsv(csv, DEFAULTS);
+
+    expect(pack.pairs).toEqual([{
+      words: ['Pizza', 'Pasta'],
+      aliases: { Pizza: ['Pizza pie', 'Pie'], Pasta: ['Noodles'] },
+      category: 'food',
+      difficulty: 'easy',
+      ageRating: 'all',
+    }]);
+    expect(exportWordPackCsv(pack)).toBe(csv);
+  });
+});
@@ -0,0 +1,239 @@
+import { AgeRating, WordPack, WordPair, WordPairDifficulty } from '../../types/game';
+import { GameEngineError } from '../errors';
+
+/**
+ * Validation, import and export of custom word packs.
+ * Shared by the server, which validates every pack a host saves,
+ * and the client, which reads and writes pack files.
+ */
+
+export const MAX_WORD_PACK_NAME_LENGTH = 40;
+export const MAX_WORD_PACK_PAIRS = 500;
+export const MAX_WORD_LENGTH = 40;
+export const MAX_CATEGORY_LENGTH = 30;
+export const MAX_ALIASES_PER_WORD = 10;
+
+// Separates the aliases of a word within a CSV cell, e.g. "Pizza pie|Pie"
+const CSV_ALIAS_SEPARATOR = '|';
+
+export const WORD_PAIR_DIFFICULTIES: WordPairDifficulty[] = ['easy', 'medium', 'hard'];
+export const AGE_RATINGS: AgeRating[] = ['all', 'teen', 'adult'];
+
+// The contents of a word pack file; the ID is assigned by the room
+export type WordPackData = Omit<WordPack, 'id'>;
+
+/**
+ * Get a key identifying a word pair regardless of the order and case of its words,
+ * so "Sun, Moon" and "moon, sun" count as the same pair
+ */
+export function getWordPairKey({ words }: WordPair): string {
+  return words.map(word => word.toLowerCase()).sort().join('\n');
+}
+
+/**
+ * Check the aliases of a word pair and key them by the exact spelling of their word
+ * @throws GameEngineError if the aliases are invalid
+ */
+function normalizeAliases(aliases: unknown, words: string[], position: number): Record<string, string[]> {
+  if (!aliases || typeof aliases !== 'object' || Array.isArray(aliases)) {
+    throw new GameEngineError(`Word pair ${position} has invalid aliases`);
+  }
+
+  const normalizedAliases: Record<string, string[]> = {};
+  for (const [key, values] of Object.entries(aliases)) {
+    const word = words.find(w => w.toLowerCase() === key.trim().toLowerCase());
+    if (!word) {
+      throw new GameEngineError(`Word pair ${position} has aliases for "${key}", which is not one of its words`);
+    }
+    if (!Array.isArray(values) || !values.every(value => typeof value === 'string')) {
+      throw new GameEngineError(`Word pair ${position} needs a list of aliases for "${word}"`);
+    }
+
+    const wordAliases = [...new Set(values.map((value: string) => value.trim()).filter(Boolean))];
+    if (wordAliases.length > MAX_ALIASES_PER_WORD || wordAliases.some(alias => alias.length > MAX_WORD_LENGTH)) {
+      throw new GameEngineError(`Word pair ${position} can have at most ${MAX_ALIASES_PER_WORD} aliases of at most ${MAX_WORD_LENGTH} characters per word`);
+    }
+    if (wordAliases.length > 0) normalizedAliases[word] = wordAliases;
+  }
+  return normalizedAliases;
+}
+
+/**
+ * Check a single word pair, given either as ["Sun", "Moon"] or as a pair object with metadata
+ * @param pair The untrusted word pair
+ * @param position The position of the pair in its pack, used in error messages
+ * @throws GameEngineError if the word pair is invalid
+ */
+function normalizeWordPair(pair: unknown, position: number): WordPair {
+  const { words, aliases, category, difficulty, ageRating } = (Array.isArray(pair) ? { words: pair } : pair || {}) as Record<string, unknown>;
+
+  if (!Array.isArray(words) || words.length !== 2 || !words.every(word => typeof word === 'string')) {
+    throw new GameEngineError(`Word pair ${position} must consist of two words`);
+  }
+  const [first, second] = words.map((word: string) => word.trim());
+  if (!first || !second || first.length > MAX_WORD_LENGTH || second.length > MAX_WORD_LENGTH) {
+    throw new GameEngineError(`Word pair ${position} must consist of two words of at most ${MAX_WORD_LENGTH} characters`);
+  }
+  if (first.toLowerCase() === second.toLowerCase()) {
+    throw new GameEngineError(`Word pair ${position} uses the same word twice`);
+  }
+
+  const normalizedPair: WordPair = { words: [first, second] };
+  if (aliases !== undefined) {
+    const normalizedAliases = normalizeAliases(aliases, [first, second], position);
+    if (Object.keys(normalizedAliases).length > 0) normalizedPair.aliases = normalizedAliases;
+  }
+  if (category !== undefined && category !== '') {
+    if (typeof category !== 'string' || !category.trim() || category.trim().length > MAX_CATEGORY_LENGTH) {
+      throw new GameEngineError(`Word pair ${position} has an invalid category`);
+    }
+    normalizedPair.category = category.trim().toLowerCase();
+  }
+  if (difficulty !== undefined && difficulty !== '') {
+    if (!WORD_PAIR_DIFFICULTIES.includes(difficulty as WordPairDifficulty)) {
+      throw new GameEngineError(`Word pair ${position} has an unknown difficulty, use ${WORD_PAIR_DIFFICULTIES.join(', ')}`);
+    }
+    normalizedPair.difficulty = difficulty as WordPairDifficulty;
+  }
+  if (ageRating !== undefined && ageRating !== '') {
+    if (!AGE_RATINGS.includes(ageRating as AgeRating)) {
+      throw new GameEngineError(`Word pair ${position} has an unknown age rating, use ${AGE_RATINGS.join(', ')}`);
+    }
+    normalizedPair.ageRating = ageRating as AgeRating;
+  }
+
+  return normalizedPair;
+}
+
+/**
+ * Check an untrusted word pack and clean up its values
+ * @param data The word pack sent by a client or read from a file
+ * @returns The word pack with trimmed words and without duplicate pairs
+ * @throws GameEngineError if the word pack is invalid
+ */
+export function normalizeWordPack(data: unknown): WordPackData {
+  if (!data || typeof data !== 'object') {
+    throw new GameEngineError('Invalid word pack');
+  }
+  const { name, language, pairs } = data as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_WORD_PACK_NAME_LENGTH) {
+    throw new GameEngineError(`The word pack needs a name of at most ${MAX_WORD_PACK_NAME_LENGTH} characters`);
+  }
+  if (typeof language !== 'string' || !/^[a-z]{2,3}(-[a-z]{2,4})?$/i.test(language.trim())) {
+    throw new GameEngineError('The word pack needs a language code such as "en"');
+  }
+  if (!Array.isArray(pairs) || pairs.length === 0) {
+    throw new GameEngineError('The word pack needs at least one word pair');
+  }
+  if (pairs.length > MAX_WORD_PACK_PAIRS) {
+    throw new GameEngineError(`A word pack can have at most ${MAX_WORD_PACK_PAIRS} word pairs`);
+  }
+
+  const seenPairs = new Set<string>();
+  const normalizedPairs: WordPair[] = [];
+  pairs.forEach((pair: unknown, index) => {
+    const normalizedPair = normalizeWordPair(pair, index + 1);
+    const key = getWordPairKey(normalizedPair);
+    if (seenPairs.has(key)) return;
+    seenPairs.add(key);
+    normalizedPairs.push(normalizedPair);
+  });
+
+  return { name: name.trim(), language: language.trim().toLowerCase(), pairs: normalizedPairs };
+}
+
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+  rows.push([...row, cell]);
+
+  return rows.filter(cells => cells.some(value => value.trim()));
+}
+
+function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Read a word pack from JSON, either a full pack or just a list of pairs
+ * @param text The file contents
+ * @param defaults The name and language used when the file does not contain them
+ * @throws GameEngineError if the file is not a valid word pack
+ */
+export function parseWordPackJson(text: string, defaults: Omit<WordPackData, 'pairs'>): WordPackData {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new GameEngineError('The file is not valid JSON');
+  }
+
+  if (Array.isArray(data)) return normalizeWordPack({ ...defaults, pairs: data });
+  if (!data || typeof data !== 'object') throw new GameEngineError('Invalid word pack');
+  return normalizeWordPack({ ...defaults, ...data });
+}
+
+/**
+ * Read a word pack from CSV with one pair per line and optional metadata columns:
+ * word, word, category, difficulty, age rating, aliases of the first word, aliases of the second word,
+ * e.g. "Sun,Moon,nature,easy" or "Pizza,Pasta,food,easy,all,Pizzas|Pizza pie"
+ * @param text The file contents
+ * @param defaults The name and language of the pack
+ * @throws GameEngineError if a line is not a valid word pair
+ */
+export function parseWordPackCsv(text: string, defaults: Omit<WordPackData, 'pairs'>): WordPackData {
+  const pairs = parseCsvRows(text).map(row => {
+    if (row.length < 2 || row.length > 7) return row;
+    const [first, second, category, difficulty, ageRating, firstAliases = '', secondAliases = ''] = row.map(cell => cell.trim());
+    const aliases = { [first]: firstAliases.split(CSV_ALIAS_SEPARATOR), [second]: secondAliases.split(CSV_ALIAS_SEPARATOR) };
+    return { words: [first, second], aliases, category, difficulty, ageRating };
+  });
+  return normalizeWordPack({ ...defaults, pairs });
+}
+
+/**
+ * Write a word pack as JSON that can be imported again
+ */
+export function exportWordPackJson({ name, language, pairs }: WordPackData): string {
+  return JSON.stringify({ name, language, pairs }, null, 2);
+}
+
+/**
+ * Write the pairs of a word pack as CSV, one pair per line followed by its metadata
+ */
+export function exportWordPackCsv({ pairs }: WordPackData): string {
+  return pairs
+    .map(({ words, aliases = {}, category = '', difficulty = '', ageRating = '' }) => {
+      const wordAliases = words.map(word => (aliases[word] ?? []).join(CSV_ALIAS_SEPARATOR));
+      return [...words, category, difficulty, ageRating, ...wordAliases].map(escapeCsvCell).join(',').replace(/,+$/, '');
+    })
+    .join('\n') + '\n';
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { filterWordPairs, getBuiltInWordPack, getWordPairCategories } from './index';
+import { WordPair, WordPairFilter } from '../../types/game';
+
+const PAIRS: WordPair[] = [
+  { words: ['Cat', 'Dog'], category: 'animals', difficulty: 'easy', ageRating: 'all' },
+  { words: ['Beer', 'Wine'], category: 'drinks', difficulty: 'medium', ageRating: 'adult' },
+  { words: ['Sun', 'Moon'] },
+];
+
+const NO_FILTER: WordPairFilter = { categories: [], difficulties: [], maxAgeRating: 'adult' };
+
+const wordsOf = (pairs: WordPair[]) => pairs.map(pair => pair.words[0]);
+
+describe('filterWordPairs', () => {
+  it('keeps every pair without a filter', () => {
+    expect(filterWordPairs(PAIRS, NO_FILTER)).toEqual(PAIRS);
+  });
+
+  it('keeps the selected categories, without pairs lacking one', () => {
+    expect(wordsOf(filterWordPairs(PAIRS, { ...NO_FILTER, categories: ['drinks'] }))).toEqual(['Beer']);
+  });
+
+  it('counts pairs without a difficulty as medium', () => {
+    expect(wordsOf(filterWordPairs(PAIRS, { ...NO_FILTER, difficulties: ['medium'] }))).toEqual(['Beer', 'Sun']);
+  });
+
+  it('keeps pairs up to the age rating, counting pairs without one as suitable for all', () => {
+    expect(wordsOf(filterWordPairs(PAIRS, { ...NO_FILTER, maxAgeRating: 'teen' }))).toEqual(['Cat', 'Sun']);
+  });
+});
+
+describe('word pack helpers', () => {
+  it('list the categories in order of first appearance', () => {
+    expect(getWordPairCategories([...PAIRS, PAIRS[0]])).toEqual(['animals', 'drinks']);
+  });
+
+  it('pick the built-in pack of the base language, falling back to English', () => {
+    expect(getBuiltInWordPack('de-AT').id).toBe('de');
+    expect(getBuiltInWordPack('fr').id).toBe('en');
+  });
+});
@@ -0,0 +1,64 @@
+import { WordPack, WordPair, WordPairFilter } from '../../types/game';
+import { AGE_RATINGS } from './format';
+import en from './en';
+import de from './de';
+
+/**
+ * Word packs shipped with the game, one per language
+ */
+export const BUILT_IN_WORD_PACKS: WordPack[] = [
+  { id: 'en', name: 'English', language: 'en', pairs: en },
+  { id: 'de', name: 'Deutsch', language: 'de', pairs: de },
+];
+
+/**
+ * Get the built-in word pack for a language
+ * @param language The language code sent by the client, e.g. "de" or "de-DE"
+ * @returns The word pack for that language, falling back to English
+ */
+export function getBuiltInWordPack(language: string): WordPack {
+  const baseLanguage = (language || '').split('-')[0].toLowerCase();
+  return BUILT_IN_WORD_PACKS.find(pack => pack.language === baseLanguage) || BUILT_IN_WORD_PACKS[0];
+}
+
+/**
+ * Get every word pack that can be selected in a room
+ * @param customPacks The word packs created by the host of the room
+ */
+export function getRoomWordPacks(customPacks: WordPack[]): WordPack[] {
+  return [...BUILT_IN_WORD_PACKS, ...customPacks];
+}
+
+/**
+ * Collect the word pairs of the selected packs
+ * @param packs The packs available in the room
+ * @param packIds The IDs of the selected packs
+ * @returns All word pairs of the selected packs
+ */
+export function getWordPairs(packs: WordPack[], packIds: string[]): WordPair[] {
+  return packs
+    .filter(pack => packIds.includes(pack.id))
+    .flatMap(pack => pack.pairs);
+}
+
+/**
+ * Keep the word pairs that match the room's filter. Pairs without metadata count
+ * as medium difficulty for everyone and only match when no category is selected.
+ * @param pairs The word pairs of the selected packs
+ * @param filter The categories, difficulties and age rating chosen by the host
+ */
+export function filterWordPairs(pairs: WordPair[], filter: WordPairFilter): WordPair[] {
+  const maxAgeIndex = AGE_RATINGS.indexOf(filter.maxAgeRating);
+  return pairs.filter(pair =>
+    (filter.categories.length === 0 || (pair.category !== undefined && filter.categories.includes(pair.category)))
+    && (filter.difficulties.length === 0 || filter.difficulties.includes(pair.difficulty || 'medium'))
+    && AGE_RATINGS.indexOf(pair.ageRating || 'all') <= maxAgeIndex
+  );
+}
+
+/**
+ * Get the categories used by a list of word pairs, in order of first appearance
+ */
+export function getWordPairCategories(pairs: WordPair[]): string[] {
+  return [...new Set(pairs.flatMap(pair => (pair.category ? [pair.category] : [])))];
+}
@@ -0,0 +1,78 @@
+import { NextFunction, Request, Response, Router } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { roomManager } from '../rooms/roomManager';
+import { AdminRoomSummary } from '../types/game';
+import { RoomControls } from './gameHandlers';
+
+/**
+ * Compare two secrets in constant time, whatever their lengths
+ */
+function secretsMatch(a: string, b: string): boolean {
+  const hash = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(hash(a), hash(b));
+}
+
+/**
+ * Only let requests through that carry the admin password as a bearer token.
+ * Without ADMIN_PASSWORD the dashboard is disabled.
+ */
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const password = process.env.ADMIN_PASSWORD;
+  if (!password) {
+    res.status(404).json({ error: 'The admin dashboard is disabled' });
+    return;
+  }
+
+  const token = req.headers.authorization?.replace(/^Bearer /, '') ?? '';
+  if (!secretsMatch(token, password)) {
+    res.status(401).json({ error: 'Wrong password' });
+    return;
+  }
+  next();
+}
+
+/**
+ * Set up the HTTP endpoints of the admin dashboard
+ * @param controls The controls to close rooms and kick players
+ * @returns The router to mount under /api/admin
+ */
+export function createAdminRouter(controls: RoomControls): Router {
+  const router = Router();
+  router.use(requireAdmin);
+
+  // List all rooms with their players and phase
+  router.get('/rooms', (req: Request, res: Response) => {
+    const rooms: AdminRoomSummary[] = Array.from(roomManager.getAllRooms().values()).map(room => {
+      const { phase, currentRound, players, spectators } = room.getGameState();
+      return {
+        roomId: room.getRoomId(),
+        hostId: room.getHostId(),
+        phase,
+        currentRound,
+        players: players.map(({ id, name, role, isAway, isEliminated }) => ({ id, name, role, isAway, isEliminated })),
+        spectators: spectators.map(({ id, name, isAway }) => ({ id, name, isAway })),
+      };
+    });
+    res.status(200).json({ rooms });
+  });
+
+  // Close a room, sending its players back to the start screen
+  router.delete('/rooms/:roomId', (req: Request, res: Response) => {
+    if (!controls.closeRoom(req.params.roomId, 'The room was closed by an admin')) {
+      res.status(404).json({ error: 'Room not found' });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  // Kick a player from a room
+  router.delete('/rooms/:roomId/players/:playerId', (req: Request, res: Response) => {
+    if (!controls.kickPlayer(req.params.roomId, req.params.playerId, 'You were removed from the room by an admin')) {
+      res.status(404).json({ error: 'Player not found' });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { isValidEventPayload } from './eventValidation';
+import { MAX_DESCRIPTION_LENGTH, MAX_ROOM_PASSWORD_LENGTH } from '../game/engine';
+
+const noop = () => undefined;
+
+describe('isValidEventPayload', () => {
+  it('accepts payloads that match the schema of the event', () => {
+    expect(isValidEventPayload('joinRoom', ['room1', 'Alice', '', false, 'client1', noop])).toBe(true);
+    expect(isValidEventPayload('submitDescription', ['p1', 'Purrs a lot'])).toBe(true);
+    expect(isValidEventPayload('updateRoleDistribution', [{ undercovers: 1, mrWhites: 0 }])).toBe(true);
+    expect(isValidEventPayload('createRoom', ['Alice', 'en', 'client1', noop])).toBe(true);
+    expect(isValidEventPayload('startGame', [])).toBe(true);
+  });
+
+  it('rejects unknown events', () => {
+    expect(isValidEventPayload('dropTables', [])).toBe(false);
+    expect(isValidEventPayload('toString', [])).toBe(false);
+  });
+
+  it('rejects missing and extra arguments', () => {
+    expect(isValidEventPayload('joinRoom', ['room1', 'Alice', '', false, noop])).toBe(false);
+    expect(isValidEventPayload('startGame', ['now'])).toBe(false);
+  });
+
+  it.each([
+    ['an empty ID', 'submitVote', ['', 'p2']],
+    ['an ID that is too long', 'submitVote', ['p1', 'x'.repeat(65)]],
+    ['a blank description', 'submitDescription', ['p1', '   ']],
+    ['a description that is too long', 'submitDescription', ['p1', 'x'.repeat(MAX_DESCRIPTION_LENGTH + 1)]],
+    ['a number instead of text', 'submitMrWhiteGuess', [42]],
+    ['a missing client ID', 'createRoom', ['Alice', 'en', noop]],
+    ['a missing callback', 'createRoom', ['Alice', 'en', 'client1', 'not a function']],
+    ['a fractional count', 'updateRoleDistribution', [{ undercovers: 1.5, mrWhites: 0 }]],
+    ['an array instead of an object', 'saveWordPack', [[]]],
+    ['invalid word pack IDs', 'updateSettings', [{ timers: {}, maxPlayers: 8, wordPackIds: [1], wordFilter: {}, scoring: {} }]],
+    ['a password that is too long', 'setRoomPassword', ['x'.repeat(MAX_ROOM_PASSWORD_LENGTH + 1)]],
+    ['a string instead of a boolean', 'reviewMrWhiteGuess', ['yes']],
+  ])('rejects %s', (_, event, args) => {
+    expect(isValidEventPayload(event, args)).toBe(false);
+  });
+});
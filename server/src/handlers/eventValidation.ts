@@ -0,0 +1,80 @@
+import { ClientToServerEvents } from '../types/game';
+import { MAX_DESCRIPTION_LENGTH, MAX_GUESS_LENGTH, MAX_NAME_LENGTH, MAX_ROOM_PASSWORD_LENGTH } from '../game/engine';
+
+/**
+ * Shape checks for the arguments of every client event, run before any handler.
+ * They only make sure the payload has the expected types and sizes;
+ * the game engine still decides whether the intent is allowed.
+ */
+
+type Check = (value: unknown) => boolean;
+
+// Room IDs, player IDs, session tokens, client IDs and language codes
+const MAX_ID_LENGTH = 64;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const id: Check = value => typeof value === 'string' && value.length > 0 && value.length <= MAX_ID_LENGTH;
+
+const text = (maxLength: number): Check => value =>
+  typeof value === 'string' && value.trim().length > 0 && value.length <= maxLength;
+
+// A string that may be empty, like a room password that has not been set
+const optionalText = (maxLength: number): Check => value => typeof value === 'string' && value.length <= maxLength;
+
+const integer: Check = value => Number.isInteger(value);
+
+const boolean: Check = value => typeof value === 'boolean';
+
+const callback: Check = value => typeof value === 'function';
+
+const arrayOf = (check: Check): Check => value => Array.isArray(value) && value.every(check);
+
+// An object with at least the given properties; the engine checks their values
+const shape = (properties: Record<string, Check>): Check => value =>
+  isObject(value) && Object.entries(properties).every(([key, check]) => check(value[key]));
+
+const EVENT_SCHEMAS: Record<keyof ClientToServerEvents, Check[]> = {
+  createRoom: [text(MAX_NAME_LENGTH), id, id, callback],
+  joinRoom: [id, text(MAX_NAME_LENGTH), optionalText(MAX_ROOM_PASSWORD_LENGTH), boolean, id, callback],
+  rejoinRoom: [id, id, callback],
+  updateRoleDistribution: [shape({ undercovers: integer, mrWhites: integer })],
+  updateSettings: [shape({
+    timers: isObject,
+    maxPlayers: integer,
+    wordPackIds: arrayOf(id),
+    wordFilter: isObject,
+    scoring: isObject,
+  })],
+  saveWordPack: [isObject],
+  deleteWordPack: [id],
+  startGame: [],
+  rerollWords: [],
+  startVoting: [],
+  continueGame: [],
+  resetGame: [],
+  reviewMrWhiteGuess: [boolean],
+  setRoomPassword: [optionalText(MAX_ROOM_PASSWORD_LENGTH)],
+  kickPlayer: [id],
+  banPlayer: [id],
+  lockRoom: [boolean],
+  submitVote: [id, id],
+  submitDescription: [id, text(MAX_DESCRIPTION_LENGTH)],
+  finishSpeaking: [],
+  submitMrWhiteGuess: [text(MAX_GUESS_LENGTH)],
+  leaveRoom: [],
+};
+
+/**
+ * Check the arguments a client sent with an event
+ * @param event The name of the event
+ * @param args The arguments of the event, including a trailing callback
+ * @returns Whether the event is known and its arguments match its schema
+ */
+export function isValidEventPayload(event: string, args: unknown[]): boolean {
+  if (!Object.prototype.hasOwnProperty.call(EVENT_SCHEMAS, event)) return false;
+
+  const checks = EVENT_SCHEMAS[event as keyof ClientToServerEvents];
+  return args.length === checks.length && checks.every((check, index) => check(args[index]));
+}
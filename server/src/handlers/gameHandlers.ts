@@ -1,169 +1,324 @@
 import { Server, Socket } from 'socket.io';
 import { roomManager } from '../rooms/roomManager';
-import { ClientToServerEvents, ServerToClientEvents, GameState } from '../types/game';
-import { socketToPlayer, playerToRoom } from '../utils/helpers';
+import { GameRoom } from '../rooms/gameRoom';
+import { checkRoomPassword, setRoomPassword } from '../rooms/roomAccess';
+import { ClientToServerEvents, ServerToClientEvents, GameErrorCode, GameState, PlayerSession, RoleDistribution, RoomSettings, WordPack } from '../types/game';
+import {
+  socketToPlayer,
+  playerToSocket,
+  playerToRoom,
+  pendingRemovals,
+  roomTimers,
+  idleWarnings,
+  generatePlayerId,
+  generateSessionToken,
+  generateWordPackId,
+} from '../utils/helpers';
+import * as engine from '../game/engine';
+import { getPlayerView, withRemainingTime } from '../game/visibility';
+import { RateLimiter } from '../utils/rateLimiter';
+import { DEFAULT_BLOCKED_WORDS, ProfanityFilter } from '../utils/profanityFilter';
+import { isValidEventPayload } from './eventValidation';
+
+type GameServer = Server<ClientToServerEvents, ServerToClientEvents>;
+type GameSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
+
+/**
+ * Actions on rooms that are triggered outside of the game, e.g. from the admin dashboard
+ */
+export interface RoomControls {
+  /**
+   * Close a room and send all of its players back to the start screen
+   * @returns False if the room does not exist
+   */
+  closeRoom: (roomId: string, reason: string) => boolean;
+  /**
+   * Remove a player from a room for good
+   * @returns False if the player is not in the room
+   */
+  kickPlayer: (roomId: string, playerId: string, reason: string) => boolean;
+}
 
 /**
  * Set up all game-related Socket.IO event handlers
  * @param io The Socket.IO server instance
+ * @returns Controls to close rooms and kick players from outside of the game
  */
-export function setupGameHandlers(io: Server<ClientToServerEvents, ServerToClientEvents>) {
-  io.on('connection', (socket: Socket) => {
+export function setupGameHandlers(io: GameServer): RoomControls {
+  // How long a disconnected player keeps their seat before being removed
+  const reconnectTimeout = Number(process.env.PLAYER_RECONNECT_TIMEOUT) || 60000;
+  // How long a room may go without any change before it is closed, 0 keeps idle rooms open
+  const idleTimeout = Number(process.env.ROOM_IDLE_TIMEOUT ?? 30 * 60000);
+  // How long before closing an idle room its players are warned
+  const idleWarning = Number(process.env.ROOM_IDLE_WARNING) || 2 * 60000;
+  // Every socket may send a burst of events, then a few events per second
+  const rateLimiter = new RateLimiter(
+    Number(process.env.SOCKET_RATE_LIMIT_BURST) || 20,
+    Number(process.env.SOCKET_RATE_LIMIT_PER_SECOND) || 5
+  );
+  // Names with blocked words are refused; PROFANITY_WORDS adds comma-separated words to the list
+  const profanityFilter = process.env.PROFANITY_FILTER === 'off'
+    ? undefined
+    : new ProfanityFilter([...DEFAULT_BLOCKED_WORDS, ...(process.env.PROFANITY_WORDS ?? '').split(',')]);
+
+  io.on('connection', (socket: GameSocket) => {
     console.log(`Client connected: ${socket.id}, transport: ${socket.conn.transport.name}`);
-    
+
     // Log socket handshake data
     console.log(`Client handshake query:`, socket.handshake.query);
     console.log(`Client headers:`, socket.handshake.headers['user-agent']);
 
+    // Drop events that come too fast or don't have the expected arguments, before any handler runs
+    socket.use(([event, ...args], next) => {
+      const reject = (message: string, code?: GameErrorCode) => {
+        console.log(`Rejected ${event} from ${socket.id}: ${message}`);
+        socket.emit('error', message, code);
+        // Answer join requests, whose clients wait for the callback
+        const callback = args[args.length - 1];
+        if ((event === 'joinRoom' || event === 'rejoinRoom') && typeof callback === 'function') callback(false, message);
+      };
+
+      if (!rateLimiter.tryConsume(socket.id)) {
+        reject("You're sending too many requests", 'rateLimited');
+        return;
+      }
+      if (!isValidEventPayload(event, args)) {
+        reject('Invalid request');
+        return;
+      }
+      next();
+    });
+
     // Create a new game room
-    socket.on('createRoom', (username: string, callback: (roomId: string) => void) => {
+    socket.on('createRoom', (username: string, language: string, clientId: string, callback: (session: PlayerSession) => void) => {
       console.log(`Creating room for user ${username} (${socket.id})`);
-      const roomId = roomManager.createRoom(socket.id, username);
-      
-      // Store mapping
-      socketToPlayer.set(socket.id, socket.id);
-      playerToRoom.set(socket.id, roomId);
-      
-      // Join the socket to the room
-      socket.join(roomId);
-      
-      console.log(`Room created: ${roomId} by ${username} (${socket.id})`);
+      const nameError = getNameError(username);
+      if (nameError) {
+        socket.emit('error', nameError);
+        return;
+      }
+
+      const playerId = generatePlayerId();
+      const roomId = roomManager.createRoom(playerId, username, language, clientId);
+      const room = roomManager.getRoom(roomId)!;
+
+      const session = startSession(socket, room, playerId);
+
+      console.log(`Room created: ${roomId} by ${username} (${playerId})`);
       console.log(`Current socket rooms:`, Array.from(socket.rooms));
-      
-      // Call the callback with the room ID
+
+      // Call the callback with the new session
       console.log(`Sending roomId ${roomId} back to client ${socket.id}`);
-      callback(roomId);
+      callback(session);
+      broadcastGameState(room);
     });
 
     // Join an existing game room
-    socket.on('joinRoom', (roomId: string, username: string, callback: (success: boolean, message?: string) => void) => {
+    socket.on('joinRoom', (roomId: string, username: string, password: string, asSpectator: boolean, clientId: string, callback: (success: boolean, message?: string, session?: PlayerSession) => void) => {
       const room = roomManager.getRoom(roomId);
-      
+
       if (!room) {
         console.log(`Room not found: ${roomId}`);
         callback(false, 'Room not found');
         return;
       }
-      
+      if (!checkRoomPassword(room, password)) {
+        console.log(`Wrong password for room ${roomId} from socket ${socket.id}`);
+        callback(false, 'Wrong room password');
+        return;
+      }
+      if (room.isBanned(clientId)) {
+        console.log(`Banned client ${clientId} tried to join room ${roomId}`);
+        callback(false, 'You were banned from this room');
+        return;
+      }
+      if (room.getGameState().isLocked) {
+        callback(false, 'The host has locked this room');
+        return;
+      }
+      const nameError = getNameError(username);
+      if (nameError) {
+        callback(false, nameError);
+        return;
+      }
+
       // Add player to the room
-      const player = room.addPlayer(socket.id, username);
-      
-      // Store mapping
-      socketToPlayer.set(socket.id, socket.id);
-      playerToRoom.set(socket.id, roomId);
-      
-      // Join the socket to the room
-      socket.join(roomId);
-      
-      // Notify host about the new player
+      const playerId = generatePlayerId();
+      let player;
+      try {
+        player = room.addPlayer(playerId, username, asSpectator, clientId);
+      } catch (error) {
+        if (!(error instanceof engine.GameEngineError)) throw error;
+        callback(false, error.message);
+        return;
+      }
+
+      const session = startSession(socket, room, playerId);
+
+      // Notify other players about the new player
       socket.to(roomId).emit('playerJoined', player);
-      
-      // Send current game state to the new player
-      socket.emit('gameState', room.getGameState());
-      
-      console.log(`Player ${username} (${socket.id}) joined room ${roomId}`);
-      callback(true);
+
+      // Send current game state to everyone, including the new player
+      broadcastGameState(room);
+
+      console.log(`Player ${username} (${playerId}) joined room ${roomId}${asSpectator ? ' as a spectator' : ''}`);
+      callback(true, undefined, session);
     });
 
-    // Update game state (only host can do this)
-    socket.on('updateGameState', (state: GameState) => {
-      const playerId = socketToPlayer.get(socket.id);
-      if (!playerId) {
-        console.log(`Player ID not found for socket: ${socket.id}`);
+    // Rejoin a room after a disconnect or page reload
+    socket.on('rejoinRoom', (roomId: string, token: string, callback: (success: boolean, message?: string, session?: PlayerSession) => void) => {
+      const room = roomManager.getRoom(roomId);
+      const playerId = room?.getPlayerIdByToken(token);
+
+      if (!room || !playerId) {
+        console.log(`Rejoin failed for socket ${socket.id} in room ${roomId}`);
+        callback(false, 'Your seat in this game is no longer available');
         return;
       }
-      
-      const roomId = playerToRoom.get(playerId);
-      if (!roomId) {
-        console.log(`Room ID not found for player: ${playerId}`);
-        return;
+
+      // Cancel the pending removal of the player
+      clearTimeout(pendingRemovals.get(playerId));
+      pendingRemovals.delete(playerId);
+
+      // Detach the previous socket of the player, e.g. from another tab
+      const previousSocketId = playerToSocket.get(playerId);
+      if (previousSocketId && previousSocketId !== socket.id) {
+        socketToPlayer.delete(previousSocketId);
+        io.in(previousSocketId).socketsLeave([roomId, playerId]);
       }
-      
-      const room = roomManager.getRoom(roomId);
-      if (!room) {
-        console.log(`Room not found: ${roomId}`);
+
+      room.setPlayerAway(playerId, false);
+      // Everyone may have been away, in which case the returning player takes over as host
+      migrateHost(room);
+      const session = startSession(socket, room, playerId, token);
+      broadcastGameState(room);
+
+      console.log(`Player ${playerId} rejoined room ${roomId} with socket ${socket.id}`);
+      callback(true, undefined, session);
+    });
+
+    // Host intents
+    socket.on('updateRoleDistribution', (distribution: RoleDistribution) => {
+      handleIntent(socket, 'updateRoleDistribution', true, state => engine.updateRoleDistribution(state, distribution));
+    });
+
+    socket.on('updateSettings', (settings: RoomSettings) => {
+      handleRoomIntent(socket, 'updateSettings', true, room => state =>
+        engine.updateSettings(state, settings, room.getWordPacks())
+      );
+    });
+
+    socket.on('saveWordPack', (pack: WordPack) => {
+      handleIntent(socket, 'saveWordPack', true, state => engine.saveWordPack(state, pack, generateWordPackId()));
+    });
+
+    socket.on('deleteWordPack', (packId: string) => {
+      handleIntent(socket, 'deleteWordPack', true, state => engine.deleteWordPack(state, packId));
+    });
+
+    socket.on('startGame', () => {
+      handleRoomIntent(socket, 'startGame', true, room => state => engine.startGame(state, room.getDrawableWordPairs()));
+    });
+
+    socket.on('rerollWords', () => {
+      handleRoomIntent(socket, 'rerollWords', true, room => state => engine.rerollWords(state, room.getDrawableWordPairs()));
+    });
+
+    socket.on('startVoting', () => {
+      handleIntent(socket, 'startVoting', true, state => engine.startVoting(state));
+    });
+
+    socket.on('continueGame', () => {
+      handleIntent(socket, 'continueGame', true, state => engine.continueGame(state));
+    });
+
+    socket.on('resetGame', () => {
+      handleIntent(socket, 'resetGame', true, state => engine.resetGame(state));
+    });
+
+    // Judge a close guess of Mr. White, done by the host or, if the host guessed, another player
+    socket.on('reviewMrWhiteGuess', (accepted: boolean) => {
+      const playerId = socketToPlayer.get(socket.id);
+      if (!playerId) return;
+      handleIntent(socket, 'reviewMrWhiteGuess', false, state => engine.reviewMrWhiteGuess(state, playerId, accepted === true));
+    });
+
+    // Set or remove the room password
+    socket.on('setRoomPassword', (password: string) => {
+      const context = getSocketRoom(socket);
+      if (!context) return;
+      if (!context.room.isHost(context.playerId)) {
+        socket.emit('error', 'Only the host can do that');
         return;
       }
-      
-      // Only host can update game state
-      if (room.getHostId() !== playerId) {
-        console.log(`Non-host tried to update game state: ${playerId}`);
+
+      setRoomPassword(context.room, password);
+      broadcastGameState(context.room);
+      console.log(`Password of room ${context.roomId} ${password ? 'set' : 'removed'}`);
+    });
+
+    // Remove a player from the room; a banned player cannot come back
+    socket.on('kickPlayer', (targetId: string) => {
+      moderatePlayer(socket, targetId, false);
+    });
+
+    socket.on('banPlayer', (targetId: string) => {
+      moderatePlayer(socket, targetId, true);
+    });
+
+    // Stop or allow new players joining
+    socket.on('lockRoom', (locked: boolean) => {
+      const context = getSocketRoom(socket);
+      if (!context) return;
+      if (!context.room.isHost(context.playerId)) {
+        socket.emit('error', 'Only the host can do that');
         return;
       }
-      
-      // Update the game state
-      room.updateGameState(state);
-      
-      // Broadcast to all players in the room except sender
-      socket.to(roomId).emit('gameState', state);
-      
-      console.log(`Game state updated in room: ${roomId}`);
+
+      context.room.setLocked(locked);
+      broadcastGameState(context.room);
+      console.log(`Room ${context.roomId} ${locked ? 'locked' : 'unlocked'}`);
     });
 
-    // Submit a vote
+    // Submit a vote, only ever in the sender's own name
     socket.on('submitVote', (voterId: string, targetId: string) => {
-      const playerId = socketToPlayer.get(socket.id);
-      if (!playerId) return;
-      
-      const roomId = playerToRoom.get(playerId);
-      if (!roomId) return;
-      
-      // Forward to host
-      const room = roomManager.getRoom(roomId);
-      if (!room) return;
-      
-      const hostId = room.getHostId();
-      io.to(hostId).emit('submitVote', voterId, targetId);
-      
-      console.log(`Vote submitted in room ${roomId}: ${voterId} voted for ${targetId}`);
+      if (!isSender(socket, voterId)) return;
+      handleIntent(socket, 'submitVote', false, state => engine.submitVote(state, voterId, targetId));
     });
 
-    // Submit a description
+    // Submit a description, only ever in the sender's own name
     socket.on('submitDescription', (playerId: string, description: string) => {
-      const senderId = socketToPlayer.get(socket.id);
-      if (!senderId) return;
-      
-      const roomId = playerToRoom.get(senderId);
-      if (!roomId) return;
-      
-      // Forward to host
-      const room = roomManager.getRoom(roomId);
-      if (!room) return;
-      
-      const hostId = room.getHostId();
-      io.to(hostId).emit('submitDescription', playerId, description);
-      
-      console.log(`Description submitted in room ${roomId} by player ${playerId}`);
+      if (!isSender(socket, playerId)) return;
+      handleIntent(socket, 'submitDescription', false, state => engine.submitDescription(state, playerId, description));
+    });
+
+    // End the current speaker's turn in spoken mode: the speaker is done, or the host moves on
+    socket.on('finishSpeaking', () => {
+      const playerId = socketToPlayer.get(socket.id);
+      if (!playerId) return;
+      handleRoomIntent(socket, 'finishSpeaking', false, room => state =>
+        engine.finishSpeaking(state, room.isHost(playerId) ? engine.getCurrentSpeakerId(state) ?? playerId : playerId)
+      );
     });
 
     // Submit Mr. White guess
     socket.on('submitMrWhiteGuess', (guess: string) => {
       const playerId = socketToPlayer.get(socket.id);
       if (!playerId) return;
-      
-      const roomId = playerToRoom.get(playerId);
-      if (!roomId) return;
-      
-      // Forward to host
-      const room = roomManager.getRoom(roomId);
-      if (!room) return;
-      
-      const hostId = room.getHostId();
-      io.to(hostId).emit('submitMrWhiteGuess', guess);
-      
-      console.log(`Mr. White guess submitted in room ${roomId}: ${guess}`);
+      handleIntent(socket, 'submitMrWhiteGuess', false, state => engine.submitMrWhiteGuess(state, playerId, guess));
     });
 
     // Leave room
     socket.on('leaveRoom', () => {
-      handlePlayerDisconnect(socket);
+      handlePlayerDisconnect(socket, true);
     });
 
     // Handle disconnection
     socket.on('disconnect', (reason) => {
       console.log(`Client disconnected: ${socket.id}, reason: ${reason}`);
       console.log(`Socket was in rooms:`, Array.from(socket.rooms));
-      handlePlayerDisconnect(socket);
+      rateLimiter.forget(socket.id);
+      handlePlayerDisconnect(socket, false);
     });
 
     // Handle errors
@@ -172,51 +327,394 @@ export function setupGameHandlers(io: Server<ClientToServerEvents, ServerToClien
     });
   });
 
+  // Rooms restored after a restart have nobody connected yet,
+  // so every player gets the usual grace period to rejoin
+  roomManager.getAllRooms().forEach(room => {
+    room.getAllPlayers().forEach(player => {
+      room.setPlayerAway(player.id, true);
+      scheduleRemoval(room, player.id);
+    });
+    scheduleRoomTimer(room);
+  });
+
+  if (idleTimeout > 0) {
+    setInterval(closeIdleRooms, Math.min(idleWarning, 30000));
+  }
+
+  return { closeRoom, kickPlayer };
+
+  /**
+   * Bind a socket to a player and hand out the session the client stores to rejoin later
+   * @param socket The socket of the player
+   * @param room The room the player is in
+   * @param playerId The player ID of the player
+   * @param token The existing session token when rejoining, a new one is issued otherwise
+   * @returns The session of the player
+   */
+  function startSession(socket: GameSocket, room: GameRoom, playerId: string, token?: string): PlayerSession {
+    const roomId = room.getRoomId();
+    const sessionToken = token || generateSessionToken();
+    room.setSessionToken(playerId, sessionToken);
+
+    // Store mapping
+    socketToPlayer.set(socket.id, playerId);
+    playerToSocket.set(playerId, socket.id);
+    playerToRoom.set(playerId, roomId);
+
+    // Join the socket to the room, and to a channel of its player for private messages
+    socket.join([roomId, playerId]);
+
+    return { roomId, playerId, token: sessionToken, isHost: room.isHost(playerId) };
+  }
+
+  /**
+   * Check that a player ID sent by a client is the sender's own, answering with an error otherwise
+   * @param socket The socket that sent an event
+   * @param playerId The player ID the event claims to be from
+   */
+  function isSender(socket: GameSocket, playerId: string): boolean {
+    if (socketToPlayer.get(socket.id) === playerId) return true;
+
+    console.log(`Socket ${socket.id} tried to act as player ${playerId}`);
+    socket.emit('error', "You can't act for another player");
+    return false;
+  }
+
+  /**
+   * Look up the player and room a socket belongs to
+   * @param socket The socket that sent an event
+   * @returns The player ID, room ID and room, or undefined if the socket is not in a room
+   */
+  function getSocketRoom(socket: GameSocket): { playerId: string; roomId: string; room: GameRoom } | undefined {
+    const playerId = socketToPlayer.get(socket.id);
+    if (!playerId) {
+      console.log(`Player ID not found for socket: ${socket.id}`);
+      return undefined;
+    }
+
+    const roomId = playerToRoom.get(playerId);
+    if (!roomId) {
+      console.log(`Room ID not found for player: ${playerId}`);
+      return undefined;
+    }
+
+    const room = roomManager.getRoom(roomId);
+    if (!room) {
+      console.log(`Room not found: ${roomId}`);
+      return undefined;
+    }
+
+    return { playerId, roomId, room };
+  }
+
+  /**
+   * Send every player in a room their own view of the game state,
+   * so nobody receives the words or roles of other players
+   * @param room The room whose state changed
+   */
+  function broadcastGameState(room: GameRoom) {
+    const state = withRemainingTime(room.getGameState(), Date.now());
+    room.getAllPlayers().forEach(player => {
+      io.to(player.id).emit('gameState', getPlayerView(state, player.id));
+    });
+    scheduleRoomTimer(room);
+  }
+
+  /**
+   * Make sure the room's countdown fires when it runs out, replacing any previous schedule
+   * @param room The room whose state changed
+   */
+  function scheduleRoomTimer(room: GameRoom) {
+    const roomId = room.getRoomId();
+    clearTimeout(roomTimers.get(roomId));
+    roomTimers.delete(roomId);
+
+    const { timer } = room.getGameState();
+    if (!timer) return;
+
+    roomTimers.set(roomId, setTimeout(() => {
+      roomTimers.delete(roomId);
+      if (roomManager.getRoom(roomId) !== room) return;
+
+      try {
+        const state = room.applyAction(current => engine.expireTimer(current, Date.now()));
+        console.log(`Timer ran out in room ${roomId}, phase: ${state.phase}`);
+      } catch (error) {
+        if (!(error instanceof engine.GameEngineError)) throw error;
+        // Drop the countdown rather than retrying it over and over
+        console.error(`Timer of room ${roomId} could not be applied: ${error.message}`);
+        return;
+      }
+      broadcastGameState(room);
+    }, Math.max(timer.endsAt - Date.now(), 0)));
+  }
+
+  /**
+   * Run a client intent through the game engine and broadcast the resulting state.
+   * Rejected intents are answered with an error event to the sender only.
+   * @param socket The socket that sent the intent
+   * @param eventName The name of the intent, for logging
+   * @param hostOnly Whether only the host may send this intent
+   * @param action The game engine action to apply
+   */
+  function handleIntent(socket: GameSocket, eventName: string, hostOnly: boolean, action: (state: GameState) => GameState) {
+    handleRoomIntent(socket, eventName, hostOnly, () => action);
+  }
+
+  /**
+   * Like handleIntent, for actions that need data of the room besides its state
+   * @param socket The socket that sent the intent
+   * @param eventName The name of the intent, for logging
+   * @param hostOnly Whether only the host may send this intent
+   * @param createAction Builds the game engine action from the sender's room
+   */
+  function handleRoomIntent(
+    socket: GameSocket,
+    eventName: string,
+    hostOnly: boolean,
+    createAction: (room: GameRoom) => (state: GameState) => GameState
+  ) {
+    const context = getSocketRoom(socket);
+    if (!context) return;
+    const { playerId, roomId, room } = context;
+
+    if (hostOnly && !room.isHost(playerId)) {
+      console.log(`Non-host tried to ${eventName}: ${playerId}`);
+      socket.emit('error', 'Only the host can do that');
+      return;
+    }
+
+    try {
+      const state = room.applyAction(createAction(room));
+      broadcastGameState(room);
+      console.log(`${eventName} by ${playerId} in room ${roomId}, phase: ${state.phase}`);
+    } catch (error) {
+      if (!(error instanceof engine.GameEngineError)) throw error;
+      console.log(`Rejected ${eventName} by ${playerId} in room ${roomId}: ${error.message}`);
+      socket.emit('error', error.message, error.code);
+    }
+  }
+
   /**
-   * Handle player disconnection
+   * Handle player disconnection. Players who lose their connection are marked as away
+   * and keep their seat for a grace period; players who leave on purpose are removed at once.
    * @param socket The socket that disconnected
+   * @param leftOnPurpose Whether the player chose to leave the room
    */
-  function handlePlayerDisconnect(socket: Socket) {
+  function handlePlayerDisconnect(socket: GameSocket, leftOnPurpose: boolean) {
     console.log(`Handling disconnect for socket ${socket.id}`);
-    
+
     const playerId = socketToPlayer.get(socket.id);
     if (!playerId) {
       console.log(`No player ID found for socket ${socket.id}`);
       return;
     }
-    
+    socketToPlayer.delete(socket.id);
+
     const roomId = playerToRoom.get(playerId);
     if (!roomId) {
       console.log(`No room ID found for player ${playerId}`);
       return;
     }
-    
+
+    // Leave the socket rooms
+    socket.leave(roomId);
+    socket.leave(playerId);
+    console.log(`Socket ${socket.id} left room ${roomId}`);
+
     const room = roomManager.getRoom(roomId);
     if (!room) {
       console.log(`Room ${roomId} not found`);
       return;
     }
-    
-    // Remove player from room
+
+    if (playerToSocket.get(playerId) !== socket.id) {
+      console.log(`Socket ${socket.id} was replaced by a newer connection of player ${playerId}`);
+      return;
+    }
+    playerToSocket.delete(playerId);
+
+    if (leftOnPurpose) {
+      removePlayerFromRoom(room, playerId);
+      return;
+    }
+
+    room.setPlayerAway(playerId, true);
+    migrateHost(room);
+    broadcastGameState(room);
+    console.log(`Player ${playerId} is away, keeping their seat for ${reconnectTimeout}ms`);
+    scheduleRemoval(room, playerId);
+  }
+
+  /**
+   * Remove an away player once their reconnect grace period is over
+   * @param room The room of the player
+   * @param playerId The player ID of the away player
+   */
+  function scheduleRemoval(room: GameRoom, playerId: string) {
+    const roomId = room.getRoomId();
+    pendingRemovals.set(playerId, setTimeout(() => {
+      pendingRemovals.delete(playerId);
+      if (roomManager.getRoom(roomId) !== room) return;
+      console.log(`Player ${playerId} did not reconnect in time`);
+      try {
+        removePlayerFromRoom(room, playerId);
+      } catch (error) {
+        if (!(error instanceof engine.GameEngineError)) throw error;
+        console.error(`Player ${playerId} could not be removed from room ${roomId}: ${error.message}`);
+      }
+    }, reconnectTimeout));
+  }
+
+  /**
+   * Remove a player for good and notify the others
+   * @param room The room of the player
+   * @param playerId The player ID of the player to remove
+   */
+  function removePlayerFromRoom(room: GameRoom, playerId: string) {
+    const roomId = room.getRoomId();
+
+    // Remove player from room, handing over the host role before everyone gets the new state
     room.removePlayer(playerId);
-    
+    if (!room.isEmpty()) migrateHost(room);
+
     // Notify other players
-    socket.to(roomId).emit('playerLeft', playerId);
-    
+    io.to(roomId).emit('playerLeft', playerId);
+    broadcastGameState(room);
+
     console.log(`Player ${playerId} left room ${roomId}`);
-    
-    // Clean up mappings
-    socketToPlayer.delete(socket.id);
+
+    // Clean up mappings, and stop a player who left on purpose from hearing about the room
     playerToRoom.delete(playerId);
-    
-    // If room is empty, remove it
+    io.in(playerId).socketsLeave([roomId, playerId]);
+
+    // If room is empty, remove it, sending any spectators back to the start screen
     if (room.isEmpty()) {
       console.log(`Room ${roomId} is empty, removing it`);
-      roomManager.removeRoom(roomId);
+      closeRoom(roomId, 'Everyone playing has left the room');
     }
-    
-    // Leave the socket room
-    socket.leave(roomId);
-    console.log(`Socket ${socket.id} left room ${roomId}`);
   }
-}
\ No newline at end of file
+
+  /**
+   * Forget the connection of a player, e.g. after they were kicked or their room was closed
+   * @param roomId The room of the player
+   * @param playerId The player ID of the player
+   */
+  function detachPlayer(roomId: string, playerId: string) {
+    clearTimeout(pendingRemovals.get(playerId));
+    pendingRemovals.delete(playerId);
+
+    const socketId = playerToSocket.get(playerId);
+    if (socketId) socketToPlayer.delete(socketId);
+    playerToSocket.delete(playerId);
+    playerToRoom.delete(playerId);
+    io.in(playerId).socketsLeave([roomId, playerId]);
+  }
+
+  function closeRoom(roomId: string, reason: string): boolean {
+    const room = roomManager.getRoom(roomId);
+    if (!room) return false;
+
+    io.to(roomId).emit('roomClosed', reason);
+    room.getAllPlayers().forEach(player => detachPlayer(roomId, player.id));
+
+    clearTimeout(roomTimers.get(roomId));
+    roomTimers.delete(roomId);
+    idleWarnings.delete(roomId);
+    roomManager.removeRoom(roomId);
+    console.log(`Room ${roomId} closed: ${reason}`);
+    return true;
+  }
+
+  function kickPlayer(roomId: string, playerId: string, reason: string): boolean {
+    const room = roomManager.getRoom(roomId);
+    if (!room?.getPlayer(playerId)) return false;
+
+    io.to(playerId).emit('kicked', reason);
+    detachPlayer(roomId, playerId);
+    removePlayerFromRoom(room, playerId);
+    console.log(`Player ${playerId} kicked from room ${roomId}: ${reason}`);
+    return true;
+  }
+
+  /**
+   * Check the name a player wants to use, before the game engine checks it is not taken
+   * @param name The name as sent by the client
+   * @returns Why the name is refused, or undefined if it may be used
+   */
+  function getNameError(name: string): string | undefined {
+    const playerName = engine.sanitizePlayerName(name);
+    if (!playerName) return 'Please enter a name';
+    if (profanityFilter?.isBlocked(playerName)) return 'This name is not allowed, please choose another one';
+    return undefined;
+  }
+
+  /**
+   * Kick or ban a player on behalf of the host of their room
+   * @param socket The socket of the host
+   * @param targetId The player ID of the player to remove
+   * @param ban Whether to keep the player out for the lifetime of the room
+   */
+  function moderatePlayer(socket: GameSocket, targetId: string, ban: boolean) {
+    const context = getSocketRoom(socket);
+    if (!context) return;
+    const { playerId, roomId, room } = context;
+
+    if (!room.isHost(playerId)) {
+      socket.emit('error', 'Only the host can do that');
+      return;
+    }
+    if (targetId === playerId) {
+      socket.emit('error', 'You cannot remove yourself');
+      return;
+    }
+    if (!room.getPlayer(targetId)) {
+      socket.emit('error', 'Player not found');
+      return;
+    }
+
+    if (ban) {
+      try {
+        room.banPlayer(targetId);
+      } catch (error) {
+        if (!(error instanceof engine.GameEngineError)) throw error;
+        socket.emit('error', error.message);
+        return;
+      }
+    }
+    kickPlayer(roomId, targetId, ban ? 'The host banned you from the room' : 'The host removed you from the room');
+  }
+
+  /**
+   * Close the rooms that have not changed for too long, warning their players shortly before
+   */
+  function closeIdleRooms() {
+    roomManager.cleanupEmptyRooms();
+
+    const now = Date.now();
+    roomManager.getAllRooms().forEach(room => {
+      const roomId = room.getRoomId();
+      const closesAt = room.getLastActivity() + idleTimeout;
+
+      if (closesAt <= now) {
+        closeRoom(roomId, 'The room was closed because nobody played for a while');
+      } else if (closesAt - now <= idleWarning && idleWarnings.get(roomId) !== closesAt) {
+        idleWarnings.set(roomId, closesAt);
+        io.to(roomId).emit('roomExpiring', closesAt);
+        console.log(`Room ${roomId} is idle and closes at ${new Date(closesAt).toISOString()}`);
+      }
+    });
+  }
+
+  /**
+   * Promote the next connected player if the host is gone, and tell everyone about it
+   * @param room The room to check
+   */
+  function migrateHost(room: GameRoom) {
+    const newHostId = room.migrateHostIfNeeded();
+    if (!newHostId) return;
+
+    io.to(room.getRoomId()).emit('hostChanged', newHostId);
+    console.log(`Host of room ${room.getRoomId()} changed to ${newHostId}`);
+  }
+}
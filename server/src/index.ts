@@ -5,7 +5,11 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import path from 'path';
 import { setupGameHandlers } from './handlers/gameHandlers';
-import { ClientToServerEvents, ServerToClientEvents } from './types/game';
+import { createAdminRouter } from './handlers/adminHandlers';
+import { roomManager } from './rooms/roomManager';
+import { createRoomStorage } from './rooms/roomStorage';
+import { ClientToServerEvents, GamePhase, ServerToClientEvents } from './types/game';
+import { getGameStats } from './utils/gameStats';
 
 // Load environment variables
 dotenv.config();
@@ -33,20 +37,40 @@ const io = new Server<ClientToServerEvents, ServerToClientEvents>(server, {
   }
 });
 
+// Bring back the rooms that were open when the server stopped
+roomManager.restoreRooms(createRoomStorage());
+
 // Set up game handlers
-setupGameHandlers(io);
+const roomControls = setupGameHandlers(io);
+
+// Admin dashboard, only enabled when ADMIN_PASSWORD is set
+app.use('/api/admin', createAdminRouter(roomControls));
 
 // Basic health check endpoint
 app.get('/api/health', (req: Request, res: Response) => {
   res.status(200).json({ status: 'ok' });
 });
 
+// Open public rooms for the lobby browser
+app.get('/api/rooms', (req: Request, res: Response) => {
+  res.status(200).json({ rooms: roomManager.getPublicRooms() });
+});
+
 // Server info endpoint
 app.get('/api/info', (req: Request, res: Response) => {
+  const roomsByPhase: Partial<Record<GamePhase, number>> = {};
+  roomManager.getAllRooms().forEach(room => {
+    const { phase } = room.getGameState();
+    roomsByPhase[phase] = (roomsByPhase[phase] || 0) + 1;
+  });
+
   res.status(200).json({
     status: 'ok',
     version: '1.0.0',
-    activeRooms: 0, // TODO: Implement room counting
+    activeRooms: roomManager.getRoomCount(),
+    roomsByPhase,
+    connectedSockets: io.of('/').sockets.size,
+    ...getGameStats(),
     uptime: process.uptime()
   });
 });
@@ -0,0 +1,313 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GameRoom } from './gameRoom';
+import * as engine from '../game/engine';
+import { getGameStats } from '../utils/gameStats';
+import { GameState, WordPack } from '../types/game';
+
+function createRoom(): GameRoom {
+  const room = new GameRoom('room1', 'host', 'Host', 'en');
+  room.addPlayer('p1', 'Alice', false, 'client-alice');
+  room.setSessionToken('host', 'token-host');
+  room.setSessionToken('p1', 'token-alice');
+  return room;
+}
+
+describe('session tokens', () => {
+  it('find the player a token was issued to', () => {
+    const room = createRoom();
+
+    expect(room.getPlayerIdByToken('token-alice')).toBe('p1');
+    expect(room.getPlayerIdByToken('token-host')).toBe('host');
+    expect(room.getPlayerIdByToken('unknown')).toBeUndefined();
+  });
+
+  it('keep the seat of a disconnected player', () => {
+    const room = createRoom();
+    room.setPlayerAway('p1', true);
+
+    expect(room.getPlayer('p1')?.isAway).toBe(true);
+    expect(room.getPlayerIdByToken('token-alice')).toBe('p1');
+
+    room.setPlayerAway('p1', false);
+    expect(room.getPlayer('p1')?.isAway).toBe(false);
+  });
+
+  it('stop working once the player has left', () => {
+    const room = createRoom();
+    room.removePlayer('p1');
+
+    expect(room.getPlayerIdByToken('token-alice')).toBeUndefined();
+    expect(room.getPlayerIdByToken('token-host')).toBe('host');
+  });
+});
+
+describe('migrateHostIfNeeded', () => {
+  function createFullRoom(): GameRoom {
+    const room = createRoom();
+    room.addPlayer('p2', 'Bob');
+    room.addPlayer('p3', 'Carol');
+    return room;
+  }
+
+  it('keeps a connected host', () => {
+    const room = createFullRoom();
+
+    expect(room.migrateHostIfNeeded()).toBeUndefined();
+    expect(room.getHostId()).toBe('host');
+  });
+
+  it('promotes the next connected player after a host who dropped', () => {
+    const room = createFullRoom();
+    room.setPlayerAway('host', true);
+    room.setPlayerAway('p1', true);
+
+    expect(room.migrateHostIfNeeded()).toBe('p2');
+    expect(room.isHost('p2')).toBe(true);
+  });
+
+  it('wraps around the seats', () => {
+    const room = createFullRoom();
+    room.setPlayerAway('host', true);
+    room.setPlayerAway('p1', true);
+    room.migrateHostIfNeeded();
+    room.setPlayerAway('p2', true);
+    room.setPlayerAway('p3', true);
+    room.setPlayerAway('host', false);
+
+    expect(room.migrateHostIfNeeded()).toBe('host');
+  });
+
+  it('promotes the first connected player after the host has left', () => {
+    const room = createFullRoom();
+    room.removePlayer('host');
+
+    expect(room.migrateHostIfNeeded()).toBe('p1');
+  });
+
+  it('keeps the host while nobody else is connected', () => {
+    const room = createFullRoom();
+    ['host', 'p1', 'p2', 'p3'].forEach(id => room.setPlayerAway(id, true));
+
+    expect(room.migrateHostIfNeeded()).toBeUndefined();
+    expect(room.getHostId()).toBe('host');
+  });
+});
+
+describe('getDrawableWordPairs', () => {
+  const PACK: WordPack = { id: '', name: 'Pairs', language: 'en', pairs: [{ words: ['Cat', 'Dog'] }, { words: ['Sun', 'Moon'] }] };
+
+  function createRoomWithPack(): GameRoom {
+    const room = createRoom();
+    room.addPlayer('p2', 'Bob');
+    room.addPlayer('p3', 'Carol');
+    room.applyAction(state => engine.saveWordPack(state, PACK, 'custom-1'));
+    room.applyAction(state => engine.updateSettings(state, { ...state.settings, wordPackIds: ['custom-1'] }, room.getWordPacks()));
+    return room;
+  }
+
+  it('leaves out pairs already played in the room', () => {
+    const room = createRoomWithPack();
+    room.applyAction(state => engine.startGame(state, room.getDrawableWordPairs()));
+    const { majorityWord } = room.getGameState();
+
+    const drawable = room.getDrawableWordPairs();
+    expect(drawable).toHaveLength(1);
+    expect(drawable[0].words).not.toContain(majorityWord);
+  });
+
+  it('starts over once every pair was played, except the current one', () => {
+    const room = createRoomWithPack();
+    room.applyAction(state => engine.startGame(state, room.getDrawableWordPairs()));
+    room.applyAction(state => engine.rerollWords(state, room.getDrawableWordPairs()));
+    const { majorityWord } = room.getGameState();
+
+    const drawable = room.getDrawableWordPairs();
+    expect(drawable).toHaveLength(1);
+    expect(drawable[0].words).not.toContain(majorityWord);
+  });
+});
+
+describe('GameRoom.restore', () => {
+  it('brings back the state and sessions of a saved room', () => {
+    const room = createRoom();
+    room.addPlayer('p2', 'Bob');
+    room.addPlayer('p3', 'Carol');
+    room.applyAction(state => engine.startGame(state, room.getDrawableWordPairs()));
+
+    const restored = GameRoom.restore(room.toStoredRoom());
+    expect(restored.getGameState()).toEqual(room.getGameState());
+    expect(restored.getHostId()).toBe('host');
+    expect(restored.getPlayerIdByToken('token-alice')).toBe('p1');
+    expect(restored.toStoredRoom()).toEqual(room.toStoredRoom());
+  });
+
+  it('does not add a host to a room saved without players', () => {
+    const stored = createRoom().toStoredRoom();
+    stored.gameState = { ...stored.gameState, players: [] };
+
+    const restored = GameRoom.restore(stored);
+    expect(restored.getAllPlayers()).toEqual([]);
+    expect(restored.isEmpty()).toBe(true);
+  });
+
+  it('fills in the fields missing from rooms saved by an older version', () => {
+    const stored = createRoom().toStoredRoom();
+    // Saved rooms are JSON, so a missing field is absent rather than undefined
+    const oldGameState: Partial<GameState> = { ...stored.gameState };
+    delete oldGameState.eventLog;
+    delete stored.clientIds;
+    delete stored.bannedClientIds;
+
+    const restored = GameRoom.restore({ ...stored, gameState: oldGameState as GameState });
+    expect(restored.getGameState().eventLog).toEqual([]);
+    expect(restored.getPlayerIdByToken('token-alice')).toBe('p1');
+    expect(restored.isBanned('client-alice')).toBe(false);
+  });
+
+  it('reports every change to its listener', () => {
+    const room = createRoom();
+    const changes: string[] = [];
+    room.onChange(changedRoom => changes.push(changedRoom.getRoomId()));
+
+    room.setSessionToken('p1', 'token-alice-2');
+    room.applyAction(state => engine.addPlayer(state, 'p2', 'Bob'));
+    expect(changes).toEqual(['room1', 'room1']);
+  });
+});
+
+describe('game stats', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('count every game once it has ended', () => {
+    vi.useFakeTimers();
+    const room = createRoom();
+    room.addPlayer('p2', 'Bob');
+    room.addPlayer('p3', 'Carol');
+    const before = getGameStats();
+
+    room.applyAction(state => engine.startGame(state, room.getDrawableWordPairs()));
+    vi.advanceTimersByTime(60000);
+    room.applyAction(state => ({ ...state, phase: 'gameEnd', winner: 'civilian' }));
+    room.applyAction(state => state);
+
+    expect(getGameStats().gamesFinished).toBe(before.gamesFinished + 1);
+    expect(getGameStats().averageGameSeconds).toBe(60);
+  });
+});
+
+describe('getLastActivity', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('moves with every change and survives a restart', () => {
+    vi.useFakeTimers();
+    const room = createRoom();
+    const createdAt = room.getLastActivity();
+
+    vi.advanceTimersByTime(5000);
+    expect(room.getLastActivity()).toBe(createdAt);
+
+    room.applyAction(state => engine.addPlayer(state, 'p2', 'Bob'));
+    expect(room.getLastActivity()).toBe(createdAt + 5000);
+
+    vi.advanceTimersByTime(5000);
+    expect(GameRoom.restore(room.toStoredRoom()).getLastActivity()).toBe(createdAt + 5000);
+  });
+});
+
+describe('moderation', () => {
+  it('locks and unlocks the room', () => {
+    const room = createRoom();
+    room.setLocked(true);
+    expect(room.getGameState().isLocked).toBe(true);
+
+    room.setLocked(false);
+    expect(room.getGameState().isLocked).toBe(false);
+  });
+
+  it('bans the browser a player joined from', () => {
+    const room = createRoom();
+    room.banPlayer('p1');
+    room.removePlayer('p1');
+
+    expect(room.isBanned('client-alice')).toBe(true);
+    expect(room.isBanned('client-bob')).toBe(false);
+  });
+
+  it('bans the browser the host created the room from', () => {
+    const room = new GameRoom('room1', 'host', 'Host', 'en', 'client-host');
+    room.banPlayer('host');
+
+    expect(room.isBanned('client-host')).toBe(true);
+  });
+
+  it('refuses to ban a player whose browser is unknown', () => {
+    const room = createRoom();
+    room.addPlayer('p2', 'Bob');
+
+    expect(() => room.banPlayer('p2')).toThrow(engine.GameEngineError);
+    expect(() => room.banPlayer('host')).toThrow("This player can't be banned, remove them instead");
+  });
+
+  it('keeps the bans when the room is restored', () => {
+    const room = createRoom();
+    room.addPlayer('p2', 'Bob', true, 'client-bob');
+    room.banPlayer('p1');
+
+    const restored = GameRoom.restore(room.toStoredRoom());
+    expect(restored.isBanned('client-alice')).toBe(true);
+    expect(restored.isBanned('client-bob')).toBe(false);
+    restored.banPlayer('p2');
+    expect(restored.isBanned('client-bob')).toBe(true);
+  });
+
+  it('keeps the lock after a new game', () => {
+    const room = createRoom();
+    room.setLocked(true);
+
+    expect(engine.resetGame({ ...room.getGameState(), phase: 'gameEnd' }).isLocked).toBe(true);
+  });
+});
+
+describe('judging a close guess', () => {
+  function createRoomWithGuess(): GameRoom {
+    const room = createRoom();
+    room.addPlayer('p2', 'Bob');
+    room.addPlayer('p3', 'Carol');
+    room.applyAction(state => engine.startGame(state, room.getDrawableWordPairs()));
+    // The host is Mr. White and has made a close guess
+    room.applyAction(state => ({ ...state, mrWhiteGuess: 'cats', mrWhiteGuessVerdict: 'pendingReview', mrWhiteGuesserId: 'host' }));
+    return room;
+  }
+
+  // Starting the game shuffles the seats
+  const getOtherPlayerIds = (room: GameRoom) => room.getGameState().players.map(p => p.id).filter(id => id !== 'host');
+
+  it('is left to another player if the host made the guess', () => {
+    const room = createRoomWithGuess();
+
+    expect(room.getGameState().mrWhiteGuessReviewerId).toBe(getOtherPlayerIds(room)[0]);
+  });
+
+  it('moves on to the next player when the reviewer drops', () => {
+    const room = createRoomWithGuess();
+    const [firstId, secondId] = getOtherPlayerIds(room);
+    room.setPlayerAway(firstId, true);
+
+    expect(room.getGameState().mrWhiteGuessReviewerId).toBe(secondId);
+  });
+
+  it('goes to the new host after the host has left', () => {
+    const room = createRoomWithGuess();
+    room.applyAction(state => ({ ...state, mrWhiteGuesserId: 'p3' }));
+    expect(room.getGameState().mrWhiteGuessReviewerId).toBe('host');
+
+    room.setPlayerAway('host', true);
+    room.setPlayerAway('p1', true);
+    room.migrateHostIfNeeded();
+    expect(room.getGameState().mrWhiteGuessReviewerId).toBe('p2');
+  });
+});
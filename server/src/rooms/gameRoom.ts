@@ -1,46 +1,119 @@
-import { GameState, Player } from '../types/game';
+import { GamePhase, GameState, Player, PublicRoomSummary, WordPack, WordPair } from '../types/game';
+import * as engine from '../game/engine';
+import { filterWordPairs, getBuiltInWordPack, getRoomWordPacks, getWordPairs } from '../game/wordPairs';
+import { getWordPairKey } from '../game/wordPairs/format';
+import { StoredRoom } from './roomStorage';
+import { recordFinishedGame } from '../utils/gameStats';
 
 /**
- * GameRoom class manages a single game room, including players and game state
+ * GameRoom class manages a single game room, including players and game state.
+ * The room is the single source of truth: its state only changes through the game engine.
  */
 export class GameRoom {
   private roomId: string;
   private hostId: string;
-  private players: Map<string, Player>;
   private gameState: GameState;
+  private sessionTokens: Map<string, string>;
+  private drawnWordPairs: Set<string>;
+  private gameStartedAt?: number;
+  private lastActivityAt: number;
+  private language: string;
+  // Salt and scrypt hash of the room password, separated by a colon
+  private passwordHash?: string;
+  // Client IDs of the players, which a browser keeps across sessions, by player ID
+  private clientIds: Map<string, string>;
+  // Client IDs of banned players, kept for the lifetime of the room
+  private bannedClientIds: Set<string>;
+  private changeListener?: (room: GameRoom) => void;
 
   /**
    * Create a new game room
    * @param roomId The unique ID for this room
-   * @param hostId The socket ID of the host player
+   * @param hostId The player ID of the host player
    * @param hostName The username of the host player
+   * @param language The language of the host, used to preselect a word pack
+   * @param hostClientId The client ID of the browser the host created the room from, used for bans
    */
-  constructor(roomId: string, hostId: string, hostName: string) {
+  constructor(roomId: string, hostId: string, hostName: string, language: string, hostClientId?: string) {
     this.roomId = roomId;
     this.hostId = hostId;
-    this.players = new Map();
-    
-    // Add host as the first player
-    const hostPlayer: Player = {
-      id: hostId,
-      name: hostName,
-    };
-    this.players.set(hostId, hostPlayer);
-    
-    // Initialize game state
-    this.gameState = {
-      players: [hostPlayer],
-      phase: 'setup',
-      currentRound: 1,
-      majorityWord: '',
-      undercoverWord: '',
-      roleDistribution: {
-        undercovers: 1,
-        mrWhites: 0
-      }
+    this.sessionTokens = new Map();
+    this.drawnWordPairs = new Set();
+    this.clientIds = new Map();
+    this.bannedClientIds = new Set();
+    this.lastActivityAt = Date.now();
+    this.language = language;
+
+    // Initialize game state with the host as the first player
+    const initialState = engine.createGameState();
+    initialState.settings = { ...initialState.settings, wordPackIds: [getBuiltInWordPack(language).id] };
+    this.gameState = engine.addPlayer(initialState, hostId, hostName);
+    if (hostClientId) {
+      this.clientIds.set(hostId, hostClientId);
+    }
+  }
+
+  /**
+   * Bring back a room saved before a server restart
+   * @param stored The room as it was last saved
+   * @returns The restored room
+   */
+  static restore(stored: StoredRoom): GameRoom {
+    // The constructor needs a valid host; the stored players replace it right away
+    const hostName = stored.gameState.players.find(p => p.id === stored.hostId)?.name || 'Host';
+    const room = new GameRoom(stored.roomId, stored.hostId, hostName, stored.language ?? 'en');
+    // Rooms saved by an older version lack the fields added since
+    room.gameState = { ...engine.createGameState(), ...stored.gameState };
+    room.sessionTokens = new Map(stored.sessionTokens);
+    room.drawnWordPairs = new Set(stored.drawnWordPairs);
+    room.gameStartedAt = stored.gameStartedAt;
+    room.lastActivityAt = stored.lastActivityAt ?? Date.now();
+    room.language = stored.language ?? 'en';
+    room.passwordHash = stored.passwordHash;
+    room.clientIds = new Map(stored.clientIds);
+    room.bannedClientIds = new Set(stored.bannedClientIds);
+    return room;
+  }
+
+  /**
+   * Get everything needed to restore the room later
+   */
+  toStoredRoom(): StoredRoom {
+    return {
+      roomId: this.roomId,
+      hostId: this.hostId,
+      gameState: this.gameState,
+      sessionTokens: Array.from(this.sessionTokens.entries()),
+      drawnWordPairs: Array.from(this.drawnWordPairs),
+      gameStartedAt: this.gameStartedAt,
+      lastActivityAt: this.lastActivityAt,
+      language: this.language,
+      passwordHash: this.passwordHash,
+      clientIds: Array.from(this.clientIds.entries()),
+      bannedClientIds: Array.from(this.bannedClientIds),
     };
   }
 
+  /**
+   * Register a function that is called whenever the room changes, e.g. to save it
+   * @param listener Called with the room after each change
+   */
+  onChange(listener: (room: GameRoom) => void): void {
+    this.changeListener = listener;
+  }
+
+  private notifyChange(): void {
+    this.lastActivityAt = Date.now();
+    this.changeListener?.(this);
+  }
+
+  /**
+   * Get the time of the last change to the room, in milliseconds
+   */
+  getLastActivity(): number {
+    return this.lastActivityAt;
+  }
+
   /**
    * Get the room ID
    */
@@ -55,6 +128,100 @@ export class GameRoom {
     return this.hostId;
   }
 
+  /**
+   * Check whether a player is the host of this room
+   * @param playerId The player ID of the player
+   */
+  isHost(playerId: string): boolean {
+    return this.hostId === playerId;
+  }
+
+  /**
+   * Hand the host role to the next connected player if the host has left or is away
+   * @returns The ID of the new host, or undefined if the host did not change
+   */
+  migrateHostIfNeeded(): string | undefined {
+    const host = this.getPlayer(this.hostId);
+    if (host && !host.isAway) return undefined;
+
+    // Look for the next player after the current host, wrapping around
+    const players = this.gameState.players;
+    const hostIndex = players.findIndex(p => p.id === this.hostId);
+    const candidates = [...players.slice(hostIndex + 1), ...players.slice(0, hostIndex + 1)];
+    const newHost = candidates.find(p => !p.isAway && p.id !== this.hostId);
+    if (!newHost) return undefined;
+
+    this.hostId = newHost.id;
+    this.gameState = engine.assignGuessReviewer(this.gameState, this.hostId);
+    this.notifyChange();
+    return newHost.id;
+  }
+
+  /**
+   * Store the hash of the password needed to join the room. Hashing happens on the server only,
+   * see roomAccess.ts, so the room also runs in the browser for local games.
+   * @param passwordHash The hashed password, or undefined to let everyone with the room ID join
+   */
+  setPasswordHash(passwordHash: string | undefined): void {
+    this.passwordHash = passwordHash;
+    this.applyAction(state => engine.setPasswordProtection(state, !!passwordHash));
+  }
+
+  /**
+   * Get the hash of the room password, or undefined if the room has none
+   */
+  getPasswordHash(): string | undefined {
+    return this.passwordHash;
+  }
+
+  /**
+   * Lock the room so nobody new can join, or open it again
+   * @param locked Whether the room is locked
+   */
+  setLocked(locked: boolean): void {
+    this.applyAction(state => engine.setRoomLocked(state, locked));
+  }
+
+  /**
+   * Keep a player out of the room for good: the browser they joined from can no longer
+   * join again, whatever name it uses. The player is removed separately.
+   * @param playerId The player ID of the player to ban
+   * @throws GameEngineError if the browser of the player is unknown, e.g. in a room saved by an older version
+   */
+  banPlayer(playerId: string): void {
+    const clientId = this.clientIds.get(playerId);
+    if (!clientId) {
+      throw new engine.GameEngineError("This player can't be banned, remove them instead");
+    }
+
+    this.bannedClientIds.add(clientId);
+    this.notifyChange();
+  }
+
+  /**
+   * Check whether a client ID belongs to a banned player
+   * @param clientId The client ID sent by a joining player
+   */
+  isBanned(clientId: string): boolean {
+    return this.bannedClientIds.has(clientId);
+  }
+
+  /**
+   * Get the room as listed in the lobby browser
+   */
+  getPublicSummary(): PublicRoomSummary {
+    const { players, phase, settings, hasPassword } = this.gameState;
+    return {
+      roomId: this.roomId,
+      hostName: this.getPlayer(this.hostId)?.name ?? '',
+      playerCount: players.length,
+      maxPlayers: settings.maxPlayers,
+      language: this.language,
+      phase,
+      hasPassword: !!hasPassword,
+    };
+  }
+
   /**
    * Get the current game state
    */
@@ -63,71 +230,160 @@ export class GameRoom {
   }
 
   /**
-   * Update the game state
-   * @param newState The new game state
+   * Apply a game engine action to the room's state, then bring the countdown up to date
+   * @param action A pure function computing the next state from the current one
+   * @returns The new game state
+   * @throws GameEngineError if the action is not allowed in the current state
+   */
+  applyAction(action: (state: GameState) => GameState): GameState {
+    const previousPhase = this.gameState.phase;
+    const nextState = engine.assignGuessReviewer(action(this.gameState), this.hostId);
+    this.gameState = engine.updateTimer(nextState, Date.now());
+    this.recordDrawnWordPair();
+    this.trackGameLength(previousPhase);
+    this.notifyChange();
+    return this.gameState;
+  }
+
+  /**
+   * Note when a game starts, and count it once it has ended
+   * @param previousPhase The phase before the last action
+   */
+  private trackGameLength(previousPhase: GamePhase): void {
+    const { phase } = this.gameState;
+    if (previousPhase === 'setup' && phase !== 'setup') {
+      this.gameStartedAt = Date.now();
+    } else if (previousPhase !== 'gameEnd' && phase === 'gameEnd' && this.gameStartedAt) {
+      recordFinishedGame(Date.now() - this.gameStartedAt);
+      this.gameStartedAt = undefined;
+    }
+  }
+
+  /**
+   * Remember the word pair being played so it is not drawn again
+   */
+  private recordDrawnWordPair(): void {
+    const { majorityWord, undercoverWord } = this.gameState;
+    if (majorityWord && undercoverWord) {
+      this.drawnWordPairs.add(getWordPairKey({ words: [majorityWord, undercoverWord] }));
+    }
+  }
+
+  /**
+   * Get the word packs that can be selected in this room, built-in and custom
+   */
+  getWordPacks(): WordPack[] {
+    return getRoomWordPacks(this.gameState.customWordPacks);
+  }
+
+  /**
+   * Get the word pairs of the packs selected in the room settings that match its word filter
+   */
+  getSelectedWordPairs(): WordPair[] {
+    const { wordPackIds, wordFilter } = this.gameState.settings;
+    return filterWordPairs(getWordPairs(this.getWordPacks(), wordPackIds), wordFilter);
+  }
+
+  /**
+   * Get the word pairs the next pair is drawn from: the selected pairs that have not been
+   * played in this room yet. Once all of them have been played the history starts over.
    */
-  updateGameState(newState: GameState): void {
-    this.gameState = newState;
-    
-    // Update players map to match game state
-    this.gameState.players.forEach(player => {
-      this.players.set(player.id, player);
-    });
+  getDrawableWordPairs(): WordPair[] {
+    const pairs = this.getSelectedWordPairs();
+    const freshPairs = pairs.filter(pair => !this.drawnWordPairs.has(getWordPairKey(pair)));
+    if (freshPairs.length > 0) return freshPairs;
+
+    this.drawnWordPairs.clear();
+    this.recordDrawnWordPair();
+
+    // Still avoid the pair that is being played, e.g. when rerolling
+    const otherPairs = pairs.filter(pair => !this.drawnWordPairs.has(getWordPairKey(pair)));
+    return otherPairs.length > 0 ? otherPairs : pairs;
   }
 
   /**
    * Add a new player to the room
-   * @param playerId The socket ID of the player
+   * @param playerId The player ID of the player
    * @param playerName The username of the player
+   * @param asSpectator Whether the player only wants to watch
+   * @param clientId The client ID of the browser the player joined from, used for bans
    * @returns The newly created player object
+   * @throws GameEngineError if the room is full or the name is taken
    */
-  addPlayer(playerId: string, playerName: string): Player {
-    const newPlayer: Player = {
-      id: playerId,
-      name: playerName
-    };
-    
-    this.players.set(playerId, newPlayer);
-    
-    // Update game state
-    this.gameState.players.push(newPlayer);
-    
-    return newPlayer;
+  addPlayer(playerId: string, playerName: string, asSpectator = false, clientId?: string): Player {
+    this.applyAction(state => engine.addPlayer(state, playerId, playerName, asSpectator));
+    if (clientId) {
+      this.clientIds.set(playerId, clientId);
+      this.notifyChange();
+    }
+    return this.getPlayer(playerId)!;
+  }
+
+  /**
+   * Register the session token a player can use to rejoin the room
+   * @param playerId The player ID of the player
+   * @param token The secret session token issued to the player
+   */
+  setSessionToken(playerId: string, token: string): void {
+    this.sessionTokens.set(token, playerId);
+    this.notifyChange();
+  }
+
+  /**
+   * Find the player a session token was issued to
+   * @param token The session token sent by a rejoining client
+   * @returns The player ID, or undefined if the token is unknown or the player has left
+   */
+  getPlayerIdByToken(token: string): string | undefined {
+    const playerId = this.sessionTokens.get(token);
+    return playerId && this.getPlayer(playerId) ? playerId : undefined;
+  }
+
+  /**
+   * Mark a player as disconnected or reconnected
+   * @param playerId The player ID of the player
+   * @param isAway Whether the player is currently disconnected
+   */
+  setPlayerAway(playerId: string, isAway: boolean): void {
+    this.applyAction(state => engine.setPlayerAway(state, playerId, isAway));
   }
 
   /**
    * Remove a player from the room
-   * @param playerId The socket ID of the player to remove
+   * @param playerId The player ID of the player to remove
    */
   removePlayer(playerId: string): void {
-    this.players.delete(playerId);
-    
-    // Update game state
-    this.gameState.players = this.gameState.players.filter(p => p.id !== playerId);
+    this.applyAction(state => engine.removePlayer(state, playerId));
+
+    for (const [token, tokenPlayerId] of this.sessionTokens.entries()) {
+      if (tokenPlayerId === playerId) this.sessionTokens.delete(token);
+    }
+    this.clientIds.delete(playerId);
+    this.notifyChange();
   }
 
   /**
-   * Get a player by ID
-   * @param playerId The socket ID of the player
+   * Get a player or spectator by ID
+   * @param playerId The player ID of the player
    * @returns The player object, or undefined if not found
    */
   getPlayer(playerId: string): Player | undefined {
-    return this.players.get(playerId);
+    return this.getAllPlayers().find(p => p.id === playerId);
   }
 
   /**
-   * Get all players in the room
+   * Get everyone in the room, players and spectators
    * @returns Array of all players
    */
   getAllPlayers(): Player[] {
-    return Array.from(this.players.values());
+    return [...this.gameState.players, ...this.gameState.spectators];
   }
 
   /**
-   * Check if the room is empty
+   * Check if the room is empty; spectators alone do not keep a game going
    * @returns True if there are no players in the room
    */
   isEmpty(): boolean {
-    return this.players.size === 0;
+    return this.gameState.players.length === 0;
   }
-}
\ No newline at end of file
+}
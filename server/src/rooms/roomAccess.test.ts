@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { GameRoom } from './gameRoom';
+import { checkRoomPassword, setRoomPassword } from './roomAccess';
+
+describe('room passwords', () => {
+  it('let everyone in while no password is set', () => {
+    const room = new GameRoom('room1', 'host', 'Host', 'en');
+
+    expect(checkRoomPassword(room, '')).toBe(true);
+    expect(checkRoomPassword(room, 'anything')).toBe(true);
+  });
+
+  it('only accept the password that was set', () => {
+    const room = new GameRoom('room1', 'host', 'Host', 'en');
+    setRoomPassword(room, 'secret');
+
+    expect(room.getPasswordHash()).not.toContain('secret');
+    expect(checkRoomPassword(room, 'secret')).toBe(true);
+    expect(checkRoomPassword(room, 'Secret')).toBe(false);
+    expect(checkRoomPassword(room, '')).toBe(false);
+  });
+
+  it('are kept when the room is restored', () => {
+    const room = new GameRoom('room1', 'host', 'Host', 'en');
+    setRoomPassword(room, 'secret');
+
+    expect(checkRoomPassword(GameRoom.restore(room.toStoredRoom()), 'secret')).toBe(true);
+  });
+
+  it('can be removed again', () => {
+    const room = new GameRoom('room1', 'host', 'Host', 'en');
+    setRoomPassword(room, 'secret');
+    setRoomPassword(room, '');
+
+    expect(checkRoomPassword(room, 'anything')).toBe(true);
+  });
+});
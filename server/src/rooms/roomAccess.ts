@@ -0,0 +1,36 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { GameRoom } from './gameRoom';
+
+/**
+ * Room passwords, kept out of GameRoom because hashing needs Node's crypto module
+ */
+
+/**
+ * Set the password needed to join a room
+ * @param room The room of the host
+ * @param password The new password, or an empty string to let everyone with the room ID join
+ */
+export function setRoomPassword(room: GameRoom, password: string): void {
+  if (!password) {
+    room.setPasswordHash(undefined);
+    return;
+  }
+
+  // Salt and scrypt hash, separated by a colon
+  const salt = randomBytes(16).toString('hex');
+  room.setPasswordHash(`${salt}:${scryptSync(password, salt, 32).toString('hex')}`);
+}
+
+/**
+ * Check the password of a player who wants to join a room
+ * @param room The room to join
+ * @param password The password entered by the player
+ * @returns True if the room has no password or the password is correct
+ */
+export function checkRoomPassword(room: GameRoom, password: string): boolean {
+  const passwordHash = room.getPasswordHash();
+  if (!passwordHash) return true;
+
+  const [salt, hash] = passwordHash.split(':');
+  return timingSafeEqual(scryptSync(password, salt, 32), Buffer.from(hash, 'hex'));
+}
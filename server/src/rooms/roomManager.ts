@@ -1,23 +1,51 @@
 import { GameRoom } from './gameRoom';
+import { MemoryRoomStorage, RoomStorage } from './roomStorage';
 import { generateRoomId } from '../utils/helpers';
+import { PublicRoomSummary } from '../types/game';
 
 /**
- * RoomManager class manages all game rooms
+ * RoomManager class manages all game rooms and saves every change to the room storage
  */
 export class RoomManager {
   private rooms: Map<string, GameRoom>;
+  private storage: RoomStorage;
 
   constructor() {
     this.rooms = new Map();
+    this.storage = new MemoryRoomStorage();
+  }
+
+  /**
+   * Switch to another room storage and bring back the rooms it holds
+   * @param storage The storage to load rooms from and save them to
+   * @returns The restored rooms
+   */
+  restoreRooms(storage: RoomStorage): GameRoom[] {
+    this.storage = storage;
+
+    const restoredRooms = storage.loadRooms().map(stored => GameRoom.restore(stored));
+    restoredRooms.forEach(room => this.addRoom(room));
+    console.log(`Restored ${restoredRooms.length} rooms`);
+    return restoredRooms;
+  }
+
+  /**
+   * Keep track of a room and save it whenever it changes
+   */
+  private addRoom(room: GameRoom): void {
+    this.rooms.set(room.getRoomId(), room);
+    room.onChange(changedRoom => this.storage.saveRoom(changedRoom.toStoredRoom()));
   }
 
   /**
    * Create a new game room
-   * @param hostId The socket ID of the host player
+   * @param hostId The player ID of the host player
    * @param hostName The username of the host player
+   * @param language The language of the host
+   * @param clientId The client ID of the browser the host created the room from
    * @returns The room ID of the newly created room
    */
-  createRoom(hostId: string, hostName: string): string {
+  createRoom(hostId: string, hostName: string, language: string, clientId: string): string {
     // Generate a unique room ID (6 characters)
     let roomId = generateRoomId();
     while (this.rooms.has(roomId)) {
@@ -25,8 +53,9 @@ export class RoomManager {
     }
 
     // Create a new game room
-    const room = new GameRoom(roomId, hostId, hostName);
-    this.rooms.set(roomId, room);
+    const room = new GameRoom(roomId, hostId, hostName, language, clientId);
+    this.addRoom(room);
+    this.storage.saveRoom(room.toStoredRoom());
 
     console.log(`Room created: ${roomId} by ${hostName} (${hostId})`);
     return roomId;
@@ -48,6 +77,7 @@ export class RoomManager {
    */
   removeRoom(roomId: string): boolean {
     console.log(`Room removed: ${roomId}`);
+    this.storage.deleteRoom(roomId);
     return this.rooms.delete(roomId);
   }
 
@@ -58,11 +88,24 @@ export class RoomManager {
     for (const [roomId, room] of this.rooms.entries()) {
       if (room.isEmpty()) {
         console.log(`Cleaning up empty room: ${roomId}`);
+        this.storage.deleteRoom(roomId);
         this.rooms.delete(roomId);
       }
     }
   }
 
+  /**
+   * Get the public, unlocked rooms that still have free seats, for the lobby browser
+   */
+  getPublicRooms(): PublicRoomSummary[] {
+    return Array.from(this.rooms.values())
+      .filter(room => {
+        const { settings, players, isLocked } = room.getGameState();
+        return settings.visibility === 'public' && !isLocked && players.length < settings.maxPlayers;
+      })
+      .map(room => room.getPublicSummary());
+  }
+
   /**
    * Get all rooms
    * @returns Map of all rooms
@@ -0,0 +1,52 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FileRoomStorage, StoredRoom } from './roomStorage';
+import { createGameState } from '../game/engine';
+
+function createStoredRoom(roomId: string): StoredRoom {
+  return { roomId, hostId: 'host', gameState: createGameState(), sessionTokens: [['token', 'host']], drawnWordPairs: [] };
+}
+
+describe('FileRoomStorage', () => {
+  let directory: string;
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  function createStorage(): FileRoomStorage {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'rooms-'));
+    return new FileRoomStorage(directory);
+  }
+
+  it('loads the rooms it saved', () => {
+    const storage = createStorage();
+    storage.saveRoom(createStoredRoom('room1'));
+    storage.saveRoom({ ...createStoredRoom('room1'), hostId: 'p1' });
+    storage.saveRoom(createStoredRoom('room2'));
+
+    const rooms = new FileRoomStorage(directory).loadRooms().sort((a, b) => a.roomId.localeCompare(b.roomId));
+    expect(rooms).toEqual([{ ...createStoredRoom('room1'), hostId: 'p1' }, createStoredRoom('room2')]);
+  });
+
+  it('forgets deleted rooms', () => {
+    const storage = createStorage();
+    storage.saveRoom(createStoredRoom('room1'));
+    storage.deleteRoom('room1');
+    storage.deleteRoom('unknown');
+
+    expect(storage.loadRooms()).toEqual([]);
+  });
+
+  it('skips unreadable files', () => {
+    const storage = createStorage();
+    storage.saveRoom(createStoredRoom('room1'));
+    fs.writeFileSync(path.join(directory, 'broken.json'), '{"roomId":');
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(storage.loadRooms().map(room => room.roomId)).toEqual(['room1']);
+  });
+});
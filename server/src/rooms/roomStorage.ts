@@ -0,0 +1,117 @@
+import fs from 'fs';
+import path from 'path';
+import { GameState } from '../types/game';
+
+/**
+ * Everything needed to bring a room back after a server restart
+ */
+export type StoredRoom = {
+  roomId: string;
+  hostId: string;
+  gameState: GameState;
+  // Pairs of session token and player ID
+  sessionTokens: [string, string][];
+  drawnWordPairs: string[];
+  // When the running game started, in milliseconds
+  gameStartedAt?: number;
+  // When the room last changed, in milliseconds
+  lastActivityAt?: number;
+  language?: string;
+  passwordHash?: string;
+  // Pairs of player ID and client ID
+  clientIds?: [string, string][];
+  bannedClientIds?: string[];
+};
+
+/**
+ * Where rooms are kept between server restarts
+ */
+export interface RoomStorage {
+  /**
+   * Load every stored room, e.g. on startup
+   */
+  loadRooms(): StoredRoom[];
+
+  /**
+   * Store a room, replacing any earlier version of it
+   */
+  saveRoom(room: StoredRoom): void;
+
+  /**
+   * Forget a room once it has been closed
+   */
+  deleteRoom(roomId: string): void;
+}
+
+/**
+ * Keeps rooms in memory only, so they are lost when the server restarts
+ */
+export class MemoryRoomStorage implements RoomStorage {
+  private rooms = new Map<string, StoredRoom>();
+
+  loadRooms(): StoredRoom[] {
+    return Array.from(this.rooms.values());
+  }
+
+  saveRoom(room: StoredRoom): void {
+    this.rooms.set(room.roomId, room);
+  }
+
+  deleteRoom(roomId: string): void {
+    this.rooms.delete(roomId);
+  }
+}
+
+/**
+ * Keeps every room in a JSON file of its own inside a directory
+ */
+export class FileRoomStorage implements RoomStorage {
+  private directory: string;
+
+  /**
+   * @param directory The directory holding the room files, created if missing
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  loadRooms(): StoredRoom[] {
+    return fs.readdirSync(this.directory)
+      .filter(file => file.endsWith('.json'))
+      .flatMap(file => {
+        try {
+          return [JSON.parse(fs.readFileSync(path.join(this.directory, file), 'utf8')) as StoredRoom];
+        } catch (error) {
+          console.error(`Skipping unreadable room file ${file}:`, error);
+          return [];
+        }
+      });
+  }
+
+  saveRoom(room: StoredRoom): void {
+    // Write to a temporary file first so a crash never leaves a half-written room behind
+    const filePath = this.getFilePath(room.roomId);
+    fs.writeFileSync(`${filePath}.tmp`, JSON.stringify(room));
+    fs.renameSync(`${filePath}.tmp`, filePath);
+  }
+
+  deleteRoom(roomId: string): void {
+    fs.rmSync(this.getFilePath(roomId), { force: true });
+  }
+
+  private getFilePath(roomId: string): string {
+    return path.join(this.directory, `${roomId}.json`);
+  }
+}
+
+/**
+ * Create the storage selected by the ROOM_STORAGE environment variable:
+ * "file" keeps rooms in ROOM_STORAGE_DIR, anything else keeps them in memory
+ */
+export function createRoomStorage(): RoomStorage {
+  if (process.env.ROOM_STORAGE === 'file') {
+    return new FileRoomStorage(path.resolve(process.env.ROOM_STORAGE_DIR || 'data/rooms'));
+  }
+  return new MemoryRoomStorage();
+}
@@ -1,10 +1,39 @@
-export type PlayerRole = "civilian" | "undercover" | "mrwhite" | "spectator";
+export type PlayerRole = "civilian" | "undercover" | "mrwhite";
 
 export type RoleDistribution = {
   undercovers: number;
   mrWhites: number;
 };
 
+// How hard it is to tell the two words of a pair apart
+export type WordPairDifficulty = "easy" | "medium" | "hard";
+
+// The youngest audience a word pair is suitable for
+export type AgeRating = "all" | "teen" | "adult";
+
+export type WordPair = {
+  words: [string, string];
+  // Other accepted spellings or names of a word, keyed by the word
+  aliases?: Record<string, string[]>;
+  category?: string;
+  difficulty?: WordPairDifficulty;
+  ageRating?: AgeRating;
+};
+
+// Which word pairs can be drawn; an empty list allows every value
+export type WordPairFilter = {
+  categories: string[];
+  difficulties: WordPairDifficulty[];
+  maxAgeRating: AgeRating;
+};
+
+export type WordPack = {
+  id: string;
+  name: string;
+  language: string;
+  pairs: WordPair[];
+};
+
 export type Player = {
   id: string;
   name: string;
@@ -13,42 +42,220 @@ export type Player = {
   isEliminated?: boolean;
   score?: number;
   submittedDescription?: string;
+  // Ended their turn without typing, in spoken mode
+  finishedSpeaking?: boolean;
+  isAway?: boolean;
+  turnSkipped?: boolean;
+};
+
+// Timer lengths in seconds, 0 disables the timer
+export type TimerSettings = {
+  speakerSeconds: number;
+  votingSeconds: number;
+};
+
+// How a tie between the most voted players is resolved:
+// pick one at random, revote among the tied players, eliminate nobody,
+// or let the tied players describe once more before a revote
+export type TieBreakRule = "random" | "revote" | "noElimination" | "extraDescription";
+
+// Whether players type their descriptions or say them out loud
+export type DescriptionMode = "typed" | "spoken";
+
+// How forgiving the judgement of Mr. White's guess is with typos and plurals
+export type GuessStrictness = "strict" | "normal" | "lenient";
+
+// Judgement of Mr. White's last guess; a close guess may be left to the host
+export type GuessVerdict = "correct" | "wrong" | "pendingReview";
+
+// Public rooms are listed in the lobby browser, private rooms can only be joined with their ID
+export type RoomVisibility = "private" | "public";
+
+// Points awarded to each member of the winning side
+export type ScoreSettings = {
+  civilian: number;
+  undercover: number;
+  mrwhite: number;
+};
+
+// Room configuration chosen by the host before the game starts
+export type RoomSettings = {
+  timers: TimerSettings;
+  maxPlayers: number;
+  wordPackIds: string[];
+  wordFilter: WordPairFilter;
+  // Randomly decide which word of a pair the majority gets
+  swapWordSides: boolean;
+  mrWhiteGuessAttempts: number;
+  guessStrictness: GuessStrictness;
+  // Let the host decide whether a close guess counts instead of rejecting it
+  hostReviewsCloseGuesses: boolean;
+  // Let a Mr. White still in the game guess during the discussion, risking elimination
+  mrWhiteCanGuessEarly: boolean;
+  tieBreakRule: TieBreakRule;
+  scoring: ScoreSettings;
+  descriptionMode: DescriptionMode;
+  visibility: RoomVisibility;
+  // Show spectators every role and word while the game is running
+  spectatorsSeeRoles: boolean;
+};
+
+// A running countdown, driven by the server
+export type PhaseTimer = {
+  kind: "speaker" | "voting";
+  playerId?: string;
+  endsAt: number;
+  duration: number;
+  // Milliseconds left when the state was sent, since the clock of a device may differ from the server's
+  remainingMs?: number;
 };
 
+// A tie between the most voted players. While a revote is running the vote
+// is limited to the tied players; in the results it explains the outcome.
+export type TieBreak = {
+  rule: TieBreakRule;
+  tiedPlayerIds: string[];
+  // The revote was tied again, so the eliminated player was picked at random
+  decidedAtRandom?: boolean;
+};
+
+// A description typed during the game, kept until the next game starts
+export type DescriptionEntry = {
+  round: number;
+  playerId: string;
+  description: string;
+};
+
+// A player as dealt at the start of a game, kept in the log after they leave
+export type LoggedPlayer = {
+  id: string;
+  name: string;
+  role: PlayerRole;
+};
+
+// Something that happened during a game. The log is only ever appended to
+// and is revealed together with the roles once the game has ended.
+export type GameEvent =
+  | { type: "gameStarted"; round: number; players: LoggedPlayer[]; majorityWord: string; undercoverWord: string }
+  | { type: "wordsRerolled"; round: number; majorityWord: string; undercoverWord: string }
+  | { type: "description"; round: number; playerId: string; description: string }
+  | { type: "vote"; round: number; voterId: string; targetId: string }
+  | { type: "elimination"; round: number; playerId: string; reason: "vote" | "wrongGuess" }
+  | { type: "mrWhiteGuess"; round: number; playerId: string; guess: string; verdict: GuessVerdict }
+  | { type: "guessReviewed"; round: number; playerId: string; reviewerId?: string; accepted: boolean }
+  | { type: "playerLeft"; round: number; playerId: string }
+  | { type: "gameEnded"; round: number; winner: string };
+
 export type GamePhase = "setup" | "wordReveal" | "discussion" | "voting" | "results" | "gameEnd";
 
 export type GameState = {
   players: Player[];
+  // People watching the game without a role; they become players when the next game is set up
+  spectators: Player[];
   phase: GamePhase;
   currentRound: number;
   majorityWord: string;
   undercoverWord: string;
+  majorityWordAliases?: string[];
+  undercoverWordAliases?: string[];
   votingResults?: Record<string, string>;
   speakingOrder?: string[];
   lastEliminatedId?: string;
   winner?: string;
   mrWhiteGuess?: string;
+  mrWhiteGuessCount?: number;
+  mrWhiteGuessVerdict?: GuessVerdict;
+  mrWhiteGuesserId?: string;
+  // The player judging a close guess of Mr. White: the host, or another player if the host guessed
+  mrWhiteGuessReviewerId?: string;
+  tieBreak?: TieBreak;
+  descriptionHistory: DescriptionEntry[];
+  eventLog: GameEvent[];
   roleDistribution: RoleDistribution;
+  settings: RoomSettings;
+  // Word packs created or imported by the host, kept for the lifetime of the room
+  customWordPacks: WordPack[];
+  // Joining the room needs the password set by the host
+  hasPassword?: boolean;
+  // Nobody new can join until the host unlocks the room
+  isLocked?: boolean;
+  timer?: PhaseTimer;
 };
 
+// Identity of a player in a room, stored by the client to rejoin after a disconnect
+export type PlayerSession = {
+  roomId: string;
+  playerId: string;
+  token: string;
+  isHost: boolean;
+};
+
+// A room as listed on the admin dashboard
+export type AdminRoomSummary = {
+  roomId: string;
+  hostId: string;
+  phase: GamePhase;
+  currentRound: number;
+  players: Pick<Player, "id" | "name" | "role" | "isAway" | "isEliminated">[];
+  spectators: Pick<Player, "id" | "name" | "isAway">[];
+};
+
+// An open public room as listed in the lobby browser
+export type PublicRoomSummary = {
+  roomId: string;
+  hostName: string;
+  playerCount: number;
+  maxPlayers: number;
+  language: string;
+  phase: GamePhase;
+  hasPassword: boolean;
+};
+
+// Identifies errors that clients translate into the player's language
+export type GameErrorCode = "descriptionContainsSecretWord" | "rateLimited";
+
 // Socket.IO event types
 export type ServerToClientEvents = {
   gameState: (state: GameState) => void;
-  roomCreated: (roomId: string) => void;
   playerJoined: (player: Player) => void;
   playerLeft: (playerId: string) => void;
-  error: (message: string) => void;
-  submitVote: (voterId: string, targetId: string) => void;
-  submitDescription: (playerId: string, description: string) => void;
-  submitMrWhiteGuess: (guess: string) => void;
+  hostChanged: (hostId: string) => void;
+  error: (message: string, code?: GameErrorCode) => void;
+  // The room no longer exists, e.g. because an admin closed it
+  roomClosed: (reason: string) => void;
+  // The room is idle and will be closed at the given time unless someone plays on
+  roomExpiring: (closesAt: number) => void;
+  // The player was removed from the room against their will
+  kicked: (reason: string) => void;
 };
 
 export type ClientToServerEvents = {
-  createRoom: (username: string, callback: (roomId: string) => void) => void;
-  joinRoom: (roomId: string, username: string, callback: (success: boolean, message?: string) => void) => void;
-  updateGameState: (state: GameState) => void;
+  createRoom: (username: string, language: string, clientId: string, callback: (session: PlayerSession) => void) => void;
+  // The client ID stays the same across sessions of a browser, so a ban outlasts the kick
+  joinRoom: (roomId: string, username: string, password: string, asSpectator: boolean, clientId: string, callback: (success: boolean, message?: string, session?: PlayerSession) => void) => void;
+  rejoinRoom: (roomId: string, token: string, callback: (success: boolean, message?: string, session?: PlayerSession) => void) => void;
+  // Host-only intents
+  updateRoleDistribution: (distribution: RoleDistribution) => void;
+  updateSettings: (settings: RoomSettings) => void;
+  saveWordPack: (pack: WordPack) => void;
+  deleteWordPack: (packId: string) => void;
+  startGame: () => void;
+  rerollWords: () => void;
+  startVoting: () => void;
+  continueGame: () => void;
+  resetGame: () => void;
+  reviewMrWhiteGuess: (accepted: boolean) => void;
+  // An empty password lets everyone with the room ID join again
+  setRoomPassword: (password: string) => void;
+  kickPlayer: (playerId: string) => void;
+  // Kicks the player and keeps them out for the lifetime of the room
+  banPlayer: (playerId: string) => void;
+  lockRoom: (locked: boolean) => void;
+  // Player intents
   submitVote: (voterId: string, targetId: string) => void;
   submitDescription: (playerId: string, description: string) => void;
+  // Ends the current speaker's turn in spoken mode; sent by the speaker or the host
+  finishSpeaking: () => void;
   submitMrWhiteGuess: (guess: string) => void;
   leaveRoom: () => void;
-};
\ No newline at end of file
+};
@@ -0,0 +1,24 @@
+/**
+ * Statistics of the games finished since the server started
+ */
+let finishedGames = 0;
+let totalGameDuration = 0;
+
+/**
+ * Count a finished game
+ * @param duration How long the game took from dealing the roles to the end, in milliseconds
+ */
+export function recordFinishedGame(duration: number): void {
+  finishedGames++;
+  totalGameDuration += duration;
+}
+
+/**
+ * Get the number of finished games and their average length in seconds
+ */
+export function getGameStats(): { gamesFinished: number; averageGameSeconds: number } {
+  return {
+    gamesFinished: finishedGames,
+    averageGameSeconds: finishedGames > 0 ? Math.round(totalGameDuration / finishedGames / 1000) : 0,
+  };
+}
@@ -1,3 +1,5 @@
+import { randomBytes } from 'crypto';
+
 /**
  * Generates a random room ID (6 characters)
  * Uses characters that are less likely to be confused with each other
@@ -11,14 +13,59 @@ export function generateRoomId(): string {
   return result;
 }
 
+/**
+ * Generates a public player ID
+ * Player IDs are visible to everyone in the room and stay the same across reconnects
+ */
+export function generatePlayerId(): string {
+  return randomBytes(8).toString('hex');
+}
+
+/**
+ * Generates a secret session token
+ * The token is only sent to its owner and proves their identity when rejoining
+ */
+export function generateSessionToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+/**
+ * Generates the ID of a custom word pack
+ * The prefix keeps custom pack IDs apart from the built-in language packs
+ */
+export function generateWordPackId(): string {
+  return `custom-${randomBytes(4).toString('hex')}`;
+}
+
 /**
  * Maps socket IDs to player IDs
  * This allows us to track which socket belongs to which player
  */
 export const socketToPlayer = new Map<string, string>();
 
+/**
+ * Maps player IDs to their current socket ID
+ * This allows us to ignore disconnects of sockets that were replaced by a rejoin
+ */
+export const playerToSocket = new Map<string, string>();
+
 /**
  * Maps player IDs to room IDs
  * This allows us to quickly find which room a player is in
  */
-export const playerToRoom = new Map<string, string>();
\ No newline at end of file
+export const playerToRoom = new Map<string, string>();
+
+/**
+ * Maps player IDs to the timer that removes them once their reconnect grace period is over
+ */
+export const pendingRemovals = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Maps room IDs to the timer that fires when the room's countdown runs out
+ */
+export const roomTimers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Maps room IDs to the closing time the players of an idle room were last warned about
+ */
+export const idleWarnings = new Map<string, number>();
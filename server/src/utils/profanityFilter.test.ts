@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BLOCKED_WORDS, ProfanityFilter } from './profanityFilter';
+
+describe('ProfanityFilter', () => {
+  const filter = new ProfanityFilter(DEFAULT_BLOCKED_WORDS);
+
+  it('blocks names with a blocked word', () => {
+    expect(filter.isBlocked('Shit')).toBe(true);
+    expect(filter.isBlocked('Big Bastard')).toBe(true);
+  });
+
+  it('sees through disguised letters, accents and separators', () => {
+    expect(filter.isBlocked('Sh1t')).toBe(true);
+    expect(filter.isBlocked('f.u.c.k')).toBe(true);
+    expect(filter.isBlocked('B!tch')).toBe(true);
+    expect(filter.isBlocked('Shìt')).toBe(true);
+  });
+
+  it('allows blocked words inside longer words', () => {
+    expect(filter.isBlocked('Dickens')).toBe(false);
+    expect(filter.isBlocked('Scunthorpe')).toBe(false);
+    expect(filter.isBlocked('Alex')).toBe(false);
+  });
+
+  it('uses the given words only', () => {
+    const customFilter = new ProfanityFilter(['Banana', ' ', '']);
+
+    expect(customFilter.isBlocked('banana')).toBe(true);
+    expect(customFilter.isBlocked('Shit')).toBe(false);
+    expect(customFilter.isBlocked('Alex')).toBe(false);
+  });
+});
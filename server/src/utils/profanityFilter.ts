@@ -0,0 +1,48 @@
+/**
+ * Words blocked in player names unless the filter is replaced, in English and German
+ */
+export const DEFAULT_BLOCKED_WORDS = [
+  'arschloch', 'asshole', 'bastard', 'bitch', 'cock', 'cunt', 'dick', 'fick', 'ficken', 'fotze', 'fuck',
+  'hitler', 'hure', 'hurensohn', 'nazi', 'nutte', 'pussy', 'schlampe', 'shit', 'slut', 'whore', 'wichser',
+];
+
+// Digits and symbols commonly used to disguise letters
+const LOOKALIKES: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '!': 'i' };
+
+/**
+ * Spots blocked words in player names. Names are compared word by word, so a blocked word
+ * inside a longer word does not count, but disguises like "Sh1t" or "f.u.c.k" do.
+ */
+export class ProfanityFilter {
+  private blockedWords: Set<string>;
+
+  /**
+   * @param words The blocked words; case, accents and empty entries are ignored
+   */
+  constructor(words: string[]) {
+    this.blockedWords = new Set(words.map(word => this.normalize(word)).filter(word => word.length > 0));
+  }
+
+  /**
+   * Check whether a name contains a blocked word
+   * @param name The sanitized name of a player
+   */
+  isBlocked(name: string): boolean {
+    const words = this.normalize(name).split(' ').filter(word => word.length > 0);
+    return [...words, words.join('')].some(word => this.blockedWords.has(word));
+  }
+
+  /**
+   * Lower-case a text, strip its accents and lookalike characters, and keep only letters
+   * separated by single spaces
+   */
+  private normalize(text: string): string {
+    return text
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/\p{M}/gu, '')
+      .replace(/[0-9@$!]/g, char => LOOKALIKES[char] ?? char)
+      .replace(/[^\p{L}]+/gu, ' ')
+      .trim();
+  }
+}
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimiter } from './rateLimiter';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function consume(limiter: RateLimiter, key: string, times: number): boolean[] {
+    return Array.from({ length: times }, () => limiter.tryConsume(key));
+  }
+
+  it('allows a burst up to the capacity', () => {
+    const limiter = new RateLimiter(3, 1);
+
+    expect(consume(limiter, 'socket1', 4)).toEqual([true, true, true, false]);
+  });
+
+  it('refills over time without exceeding the capacity', () => {
+    const limiter = new RateLimiter(3, 2);
+    consume(limiter, 'socket1', 3);
+
+    vi.advanceTimersByTime(500);
+    expect(consume(limiter, 'socket1', 2)).toEqual([true, false]);
+
+    vi.advanceTimersByTime(60000);
+    expect(consume(limiter, 'socket1', 4)).toEqual([true, true, true, false]);
+  });
+
+  it('counts every key on its own', () => {
+    const limiter = new RateLimiter(1, 1);
+    limiter.tryConsume('socket1');
+
+    expect(limiter.tryConsume('socket1')).toBe(false);
+    expect(limiter.tryConsume('socket2')).toBe(true);
+  });
+
+  it('starts over for a forgotten key', () => {
+    const limiter = new RateLimiter(1, 1);
+    limiter.tryConsume('socket1');
+    limiter.forget('socket1');
+
+    expect(limiter.tryConsume('socket1')).toBe(true);
+  });
+});
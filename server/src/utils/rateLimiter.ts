@@ -0,0 +1,41 @@
+/**
+ * Token bucket rate limiter: every key may send a burst of events,
+ * after which it regains a fixed number of events per second
+ */
+export class RateLimiter {
+  private capacity: number;
+  private refillPerSecond: number;
+  private buckets: Map<string, { tokens: number; updatedAt: number }>;
+
+  /**
+   * @param capacity How many events a key may send at once
+   * @param refillPerSecond How many events a key regains per second
+   */
+  constructor(capacity: number, refillPerSecond: number) {
+    this.capacity = capacity;
+    this.refillPerSecond = refillPerSecond;
+    this.buckets = new Map();
+  }
+
+  /**
+   * Count an event of a key
+   * @param key The sender of the event, e.g. a socket ID
+   * @returns False if the key has sent too many events and the event should be dropped
+   */
+  tryConsume(key: string): boolean {
+    const now = Date.now();
+    const bucket = this.buckets.get(key) ?? { tokens: this.capacity, updatedAt: now };
+    const tokens = Math.min(this.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * this.refillPerSecond);
+
+    const allowed = tokens >= 1;
+    this.buckets.set(key, { tokens: allowed ? tokens - 1 : tokens, updatedAt: now });
+    return allowed;
+  }
+
+  /**
+   * Forget a key, e.g. once its socket has disconnected
+   */
+  forget(key: string): void {
+    this.buckets.delete(key);
+  }
+}
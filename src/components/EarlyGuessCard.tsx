@@ -0,0 +1,52 @@
+import { useState } from "react";
+import { useGame } from "../context/GameContext";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Send } from "lucide-react";
+import { toast } from "sonner";
+
+// Lets a Mr. White still in the game guess the civilians' word during the discussion.
+// Only offered online: on a shared device the guesser could not be told apart.
+export const EarlyGuessCard = () => {
+  const { gameState, playerId, isLocal, submitMrWhiteGuess } = useGame();
+  const [guess, setGuess] = useState("");
+
+  const currentPlayer = gameState.players.find(p => p.id === playerId);
+  const canGuess = gameState.settings.mrWhiteCanGuessEarly
+    && !isLocal
+    && currentPlayer?.role === "mrwhite"
+    && !currentPlayer.isEliminated
+    && gameState.mrWhiteGuessVerdict !== "pendingReview";
+
+  if (!canGuess) return null;
+
+  const handleGuessSubmit = () => {
+    if (!guess.trim()) {
+      toast.error("Please enter a guess");
+      return;
+    }
+
+    submitMrWhiteGuess(guess.trim());
+    setGuess("");
+  };
+
+  return (
+    <Card className="p-4 glass-morphism space-y-3">
+      <p className="text-white/80 text-sm">
+        Think you know the word? Guess now to win right away, but a wrong guess eliminates you.
+      </p>
+      <div className="flex gap-2">
+        <Input
+          value={guess}
+          onChange={(e) => setGuess(e.target.value)}
+          placeholder="Enter your guess..."
+          className="flex-1"
+        />
+        <Button onClick={handleGuessSubmit} className="bg-primary hover:bg-primary/90">
+          <Send className="h-4 w-4" />
+        </Button>
+      </div>
+    </Card>
+  );
+};
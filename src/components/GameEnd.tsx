@@ -1,46 +1,54 @@
 import { useGame } from "../context/GameContext";
-import { useWebSocket } from "../context/WebSocketContext";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Trophy, User } from "lucide-react";
+import { History, Trophy, User } from "lucide-react";
 import { useSound } from "@/context/SoundContext";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { MrWhiteGuess } from "./shared/MrWhiteGuess";
+import { GameState } from "@/types/game";
+import { GameReplay } from "./GameReplay";
+
+// Everything that was said during the game, round by round, now that the roles are known
+const DescriptionSummary = ({ gameState }: { gameState: GameState }) => {
+  const rounds = [...new Set(gameState.descriptionHistory.map(entry => entry.round))];
+  if (rounds.length === 0) return null;
+
+  return (
+    <Card className="p-6 glass-morphism">
+      <h3 className="text-xl font-bold text-white mb-4">Descriptions</h3>
+      <div className="space-y-4">
+        {rounds.map((round) => (
+          <div key={round} className="space-y-1">
+            <p className="text-sm font-semibold text-white/60">Round {round}</p>
+            {gameState.descriptionHistory
+              .filter(entry => entry.round === round)
+              .map((entry, index) => {
+                const player = gameState.players.find(p => p.id === entry.playerId);
+                return (
+                  <p key={index} className="text-white/90">
+                    <span className="font-semibold">{player?.name ?? "A player"}</span>
+                    {player?.role && <span className="text-sm text-white/50"> ({player.role})</span>}
+                    : {entry.description}
+                  </p>
+                );
+              })}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+};
 
 export const GameEnd = () => {
-  const { gameState, resetGame, setGameState } = useGame();
-  const { socket, isHost } = useWebSocket();
+  const { gameState, playerId, isHost, resetGame } = useGame();
   const { playSound } = useSound();
+  const [showReplay, setShowReplay] = useState(false);
   
   console.log("GameEnd rendering. IsHost:", isHost);
 
-  const currentPlayer = gameState.players.find(p => p.id === socket?.id);
+  const currentPlayer = gameState.players.find(p => p.id === playerId);
 
   useEffect(() => {
-    // Update scores for winners
-    const updatedPlayers = gameState.players.map(player => {
-      const currentScore = player.score || 0;
-      let pointsToAdd = 0;
-
-      if (gameState.winner === "civilian" && player.role === "civilian") {
-        pointsToAdd = 2;
-      } else if (gameState.winner === "undercover" && player.role === "undercover") {
-        pointsToAdd = 10;
-      } else if (gameState.winner === "mrwhite" && player.role === "mrwhite") {
-        pointsToAdd = 6;
-      } else if (gameState.winner === "infiltrators") {
-        if (player.role === "undercover") pointsToAdd = 10;
-        if (player.role === "mrwhite") pointsToAdd = 6;
-      }
-
-      return {
-        ...player,
-        score: currentScore + pointsToAdd,
-      };
-    });
-
-    setGameState({ ...gameState, players: updatedPlayers });
-
     switch (gameState.winner) {
       case "civilian":
         playSound("/sounds/civilians-win.mp3");
@@ -109,6 +117,16 @@ export const GameEnd = () => {
         </div>
       </Card>
 
+      <DescriptionSummary gameState={gameState} />
+
+      {showReplay ? (
+        <GameReplay gameState={gameState} />
+      ) : gameState.eventLog.length > 0 && (
+        <Button variant="outline" onClick={() => setShowReplay(true)} className="w-full">
+          <History className="h-4 w-4 mr-2" />Watch replay
+        </Button>
+      )}
+
       {isHost && (
         <Button
           onClick={resetGame}
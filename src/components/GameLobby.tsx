@@ -1,12 +1,10 @@
 import { useGame } from "../context/GameContext";
-import { useWebSocket } from "../context/WebSocketContext";
 import { Button } from "@/components/ui/button";
 import { UserX } from "lucide-react";
 import { PlayerList } from "./shared/PlayerList";
 
 export const GameLobby = () => {
-  const { gameState, startGame } = useGame();
-  const { isHost } = useWebSocket();
+  const { gameState, isHost, startGame } = useGame();
   
   console.log("GameLobby rendering. IsHost:", isHost);
 
@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { GameEvent, GameState } from "@/types/game";
+
+const WINNER_LABELS: Record<string, string> = {
+  civilian: "Civilians win",
+  undercover: "Undercover wins",
+  mrwhite: "Mr. White wins",
+  infiltrators: "Infiltrators win",
+};
+
+// One line of the replay, describing an event with the names of the players involved
+const describeEvent = (event: GameEvent, getName: (playerId: string) => string) => {
+  switch (event.type) {
+    case "gameStarted":
+      return `Words dealt: ${event.majorityWord} and ${event.undercoverWord}`;
+    case "wordsRerolled":
+      return `Words rerolled: ${event.majorityWord} and ${event.undercoverWord}`;
+    case "description":
+      return `${getName(event.playerId)}: ${event.description}`;
+    case "vote":
+      return `${getName(event.voterId)} voted for ${getName(event.targetId)}`;
+    case "elimination":
+      return event.reason === "vote"
+        ? `${getName(event.playerId)} was voted out`
+        : `${getName(event.playerId)} guessed wrong and was eliminated`;
+    case "mrWhiteGuess":
+      return `${getName(event.playerId)} guessed "${event.guess}" (${event.verdict === "pendingReview" ? "left to be judged" : event.verdict})`;
+    case "guessReviewed":
+      return `${event.reviewerId ? getName(event.reviewerId) : "The host"} ${event.accepted ? "counted" : "rejected"} the guess of ${getName(event.playerId)}`;
+    case "playerLeft":
+      return `${getName(event.playerId)} left the game`;
+    case "gameEnded":
+      return WINNER_LABELS[event.winner] ?? `${event.winner} wins`;
+  }
+};
+
+// Steps through the event log of a finished game, one round at a time
+export const GameReplay = ({ gameState }: { gameState: GameState }) => {
+  const { eventLog } = gameState;
+  const rounds = [...new Set(eventLog.map(event => event.round))];
+  const [roundIndex, setRoundIndex] = useState(0);
+
+  if (rounds.length === 0) return null;
+
+  const round = rounds[Math.min(roundIndex, rounds.length - 1)];
+  const startEvent = eventLog.find(event => event.type === "gameStarted");
+  const dealtPlayers = startEvent?.type === "gameStarted" ? startEvent.players : [];
+
+  // Players who left are no longer in the game state, but the log still knows their name
+  const getName = (playerId: string) =>
+    dealtPlayers.find(p => p.id === playerId)?.name
+    ?? gameState.players.find(p => p.id === playerId)?.name
+    ?? "A player";
+
+  return (
+    <Card className="p-6 glass-morphism space-y-4">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" size="icon" onClick={() => setRoundIndex(roundIndex - 1)} disabled={roundIndex === 0}>
+          <ChevronLeft className="h-5 w-5" />
+        </Button>
+        <h3 className="text-xl font-bold text-white">Replay: Round {round}</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setRoundIndex(roundIndex + 1)}
+          disabled={roundIndex >= rounds.length - 1}
+        >
+          <ChevronRight className="h-5 w-5" />
+        </Button>
+      </div>
+
+      {round === startEvent?.round && (
+        <div className="space-y-1">
+          {dealtPlayers.map(player => (
+            <p key={player.id} className="text-sm text-white/70">
+              <span className="font-semibold text-white/90">{player.name}</span> was {player.role}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {eventLog
+          .filter(event => event.round === round)
+          .map((event, index) => (
+            <p
+              key={index}
+              className={event.type === "elimination" || event.type === "gameEnded" ? "font-semibold text-primary" : "text-white/90"}
+            >
+              {describeEvent(event, getName)}
+            </p>
+          ))}
+      </div>
+    </Card>
+  );
+};
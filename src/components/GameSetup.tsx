@@ -1,16 +1,20 @@
 import { useGame } from "../context/GameContext";
-import { useWebSocket } from "../context/WebSocketContext";
 import { Button } from "@/components/ui/button";
 import { Link, Hash, Plus, Minus } from "lucide-react";
 import { toast } from "sonner";
 import { PlayerList } from "./shared/PlayerList";
+import { SpectatorList } from "./shared/SpectatorList";
 import { Card } from "@/components/ui/card";
 import { useIsMobile } from "@/hooks/use-mobile";
-import { distributionMeetsLimits } from "@/config/roleDistribution";
+import { distributionMeetsLimits } from "@server/game/roleDistribution";
+import { RoomSettingsCard } from "./RoomSettingsCard";
+import { WordPackManager } from "./WordPackManager";
+import { WordFilterCard } from "./WordFilterCard";
+import { LocalPlayersCard } from "./LocalPlayersCard";
+import { RoomAccessCard } from "./RoomAccessCard";
 
 export const GameSetup = () => {
-  const { gameState, startGame, updateRoleDistribution } = useGame();
-  const { roomId, isHost } = useWebSocket();
+  const { gameState, roomId, isHost, isLocal, startGame, updateRoleDistribution } = useGame();
   const isMobile = useIsMobile();
   
   console.log("GameSetup rendering. RoomId:", roomId, "IsHost:", isHost);
@@ -30,27 +34,36 @@ export const GameSetup = () => {
     <div className="max-w-4xl mx-auto p-6 space-y-8 animate-fade-in">
       <h1 className="text-4xl font-bold text-white mb-8 text-center">Game Setup</h1>
 
-      <div
-        onClick={handleCopyLink}
-        className="glass-morphism p-6 rounded-lg hover:bg-white/10 transition-colors cursor-pointer group"
-      >
-        <div className="flex items-center gap-2 text-white/90 text-lg mb-4">
-          <Hash className="h-5 w-5" />
-          <span>Game Link - Share to friends</span>
-        </div>
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-3 w-full">
-            <code className="bg-white/5 px-4 py-2 rounded-lg text-[#1EAEDB] font-mono text-lg w-full text-center">{roomId}</code>
-            <Link className="h-5 w-5 text-white/70 group-hover:text-white transition-colors" />
+      {!isLocal && (
+        <div
+          onClick={handleCopyLink}
+          className="glass-morphism p-6 rounded-lg hover:bg-white/10 transition-colors cursor-pointer group"
+        >
+          <div className="flex items-center gap-2 text-white/90 text-lg mb-4">
+            <Hash className="h-5 w-5" />
+            <span>Game Link - Share to friends</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3 w-full">
+              <code className="bg-white/5 px-4 py-2 rounded-lg text-[#1EAEDB] font-mono text-lg w-full text-center">{roomId}</code>
+              <Link className="h-5 w-5 text-white/70 group-hover:text-white transition-colors" />
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
       <div className={`${isMobile ? 'space-y-6' : 'grid grid-cols-2 gap-6'}`}>
-        <PlayerList
-          players={gameState.players}
-          showScores={gameState.players.some(p => p.score > 0)}
-        />
+        {isLocal ? (
+          <LocalPlayersCard />
+        ) : (
+          <div className="space-y-6">
+            <PlayerList
+              players={gameState.players}
+              showScores={gameState.players.some(p => p.score > 0)}
+            />
+            <SpectatorList />
+          </div>
+        )}
 
         <div className="space-y-6">
           <Card className="p-6 bg-white/5">
@@ -132,6 +145,14 @@ export const GameSetup = () => {
             </div>
           </Card>
 
+          {!isLocal && <RoomAccessCard />}
+
+          <RoomSettingsCard />
+
+          <WordFilterCard />
+
+          <WordPackManager />
+
           <div className="space-y-2">
             {!hasEnoughPlayers && (
               <div className="text-red-500 text-sm text-center mb-2">
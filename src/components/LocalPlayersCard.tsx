@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { useGame } from "../context/GameContext";
+import { useLocalGame } from "../context/LocalGameContext";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { LogOut, Plus, Users, X } from "lucide-react";
+import { toast } from "sonner";
+
+// Players of a local game, added by name since everyone shares the same device
+export const LocalPlayersCard = () => {
+  const { gameState } = useGame();
+  const localGame = useLocalGame();
+  const [name, setName] = useState("");
+
+  if (!localGame) return null;
+
+  const handleAdd = () => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      toast.error("Please enter a name!");
+      return;
+    }
+    if (gameState.players.some(p => p.name.toLowerCase() === trimmedName.toLowerCase())) {
+      toast.error("This name is already taken!");
+      return;
+    }
+
+    localGame.addPlayer(trimmedName);
+    setName("");
+  };
+
+  return (
+    <Card className="p-6 bg-white/5">
+      <div className="flex items-center gap-2 text-white text-lg font-semibold mb-6">
+        <Users className="h-5 w-5" />
+        <span>Players ({gameState.players.length})</span>
+      </div>
+
+      <div className="space-y-2">
+        {gameState.players.map((player) => (
+          <div key={player.id} className="flex items-center justify-between p-3 rounded-lg bg-white/5">
+            <span className="text-white truncate">
+              {player.name}
+              {player.score > 0 && <span className="text-white/60 text-sm"> ({player.score} points)</span>}
+            </span>
+            <Button variant="ghost" size="icon" onClick={() => localGame.removePlayer(player.id)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <form
+        className="flex gap-2 mt-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleAdd();
+        }}
+      >
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Player name"
+          maxLength={25}
+          className="flex-1 bg-secondary/20 border-secondary/30"
+        />
+        <Button type="submit" className="bg-primary hover:bg-primary/90">
+          <Plus className="h-4 w-4 mr-1" />Add
+        </Button>
+      </form>
+
+      <Button variant="ghost" onClick={localGame.leaveLocalGame} className="w-full mt-4">
+        <LogOut className="h-4 w-4 mr-2" />Leave local game
+      </Button>
+    </Card>
+  );
+};
@@ -3,12 +3,19 @@ import { useWebSocket } from "../context/WebSocketContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
-import { Users, UserPlus, Copy, Link } from "lucide-react";
+import { Users, UserPlus, Copy, Link, Smartphone } from "lucide-react";
 import { useSearchParams } from "react-router-dom";
 import { useTranslation } from "react-i18next";
+import { PublicRoomsCard } from "./PublicRoomsCard";
+import { MAX_ROOM_PASSWORD_LENGTH } from "@server/game/engine";
 
-export const MultiplayerSetup = () => {
+interface MultiplayerSetupProps {
+  onPlayLocally: () => void;
+}
+
+export const MultiplayerSetup = ({ onPlayLocally }: MultiplayerSetupProps) => {
   const { t } = useTranslation();
   const [searchParams] = useSearchParams();
   const { hostGame, joinGame, roomId, connected } = useWebSocket();
@@ -16,6 +23,8 @@ export const MultiplayerSetup = () => {
   const [showHostForm, setShowHostForm] = useState(false);
   const [joinId, setJoinId] = useState(showJoinForm ? searchParams.get("gameId") : "");
   const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [asSpectator, setAsSpectator] = useState(false);
 
   useEffect(() => {
     const gameId = searchParams.get("gameId");
@@ -39,7 +48,7 @@ export const MultiplayerSetup = () => {
       toast.error("Please enter your username!");
       return;
     }
-    joinGame(joinId.trim(), username.trim());
+    joinGame(joinId.trim(), username.trim(), password, asSpectator);
   };
 
   const handleHost = () => {
@@ -151,6 +160,24 @@ export const MultiplayerSetup = () => {
               <Users className="mr-2 h-4 w-4" />
               Join Game
             </Button>
+
+            <Button
+              onClick={onPlayLocally}
+              variant="outline"
+              className="w-full bg-white/10 hover:bg-white/20 transition-colors duration-200"
+            >
+              <Smartphone className="mr-2 h-4 w-4" />
+              Play on one device
+            </Button>
+
+            {connected && (
+              <PublicRoomsCard
+                onSelect={(room) => {
+                  setJoinId(room.roomId);
+                  setShowJoinForm(true);
+                }}
+              />
+            )}
           </div>
         )}
 
@@ -199,6 +226,18 @@ export const MultiplayerSetup = () => {
               placeholder="Enter game ID"
               className="w-full bg-secondary/20 border-secondary/30"
             />
+            <Input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Room password (if any)"
+              maxLength={MAX_ROOM_PASSWORD_LENGTH}
+              className="w-full bg-secondary/20 border-secondary/30"
+            />
+            <label className="flex items-center justify-between gap-4 px-1">
+              <span className="text-white/90">Join as spectator</span>
+              <Switch checked={asSpectator} onCheckedChange={setAsSpectator} />
+            </label>
             <Button
               onClick={handleJoin}
               className="w-full bg-primary hover:bg-primary/90"
@@ -0,0 +1,50 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Globe, Lock } from "lucide-react";
+import { PublicRoomSummary } from "@/types/game";
+
+const fetchPublicRooms = async (): Promise<PublicRoomSummary[]> => {
+  const response = await fetch("/api/rooms");
+  if (!response.ok) throw new Error("Failed to load the public rooms");
+  return (await response.json()).rooms;
+};
+
+interface PublicRoomsCardProps {
+  onSelect: (room: PublicRoomSummary) => void;
+}
+
+// Open public rooms, refreshed while the start screen is shown
+export const PublicRoomsCard = ({ onSelect }: PublicRoomsCardProps) => {
+  const { data: rooms, isError } = useQuery({
+    queryKey: ["publicRooms"],
+    queryFn: fetchPublicRooms,
+    refetchInterval: 5000,
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Globe className="h-4 w-4" />
+        <span>Public rooms</span>
+      </div>
+      {isError && <p className="text-sm text-red-400">Failed to load the public rooms</p>}
+      {rooms?.length === 0 && <p className="text-sm text-white/60">No public rooms right now</p>}
+      {rooms?.map((room) => (
+        <div key={room.roomId} className="flex items-center justify-between gap-2 p-3 rounded-lg bg-white/5">
+          <div className="min-w-0">
+            <p className="text-white truncate">
+              {room.hasPassword && <Lock className="inline h-3 w-3 mr-1" />}
+              {room.hostName}'s room
+            </p>
+            <p className="text-xs text-white/60">
+              {room.playerCount}/{room.maxPlayers} players · {room.language} · {room.phase === "setup" ? "Waiting" : "Playing"}
+            </p>
+          </div>
+          <Button size="sm" variant="secondary" onClick={() => onSelect(room)}>
+            Join
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
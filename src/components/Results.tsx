@@ -1,7 +1,6 @@
 import { useGame } from "../context/GameContext";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { useWebSocket } from "@/context/WebSocketContext";
 import { Input } from "@/components/ui/input";
 import { useEffect, useState } from "react";
 import { Send } from "lucide-react";
@@ -9,10 +8,11 @@ import { toast } from "sonner";
 import { useSound } from "@/context/SoundContext";
 import { MrWhiteGuess } from "./shared/MrWhiteGuess";
 import { PlayerList } from "./shared/PlayerList";
+import { TieBreakNotice } from "./shared/TieBreakNotice";
+import { isMrWhiteGuessPending } from "@server/game/engine";
 
 export const Results = () => {
-  const { gameState, setGameState, submitMrWhiteGuess, eliminatePlayer, checkGameEnd } = useGame();
-  const { socket, isHost, sendToHost } = useWebSocket();
+  const { gameState, playerId, isHost, isLocal, submitMrWhiteGuess, continueGame } = useGame();
   const { playSound } = useSound();
   
   console.log("Results rendering. IsHost:", isHost);
@@ -20,7 +20,7 @@ export const Results = () => {
   const [tieBreakerPlayers, setTieBreakerPlayers] = useState<string[]>([]);
   const [showEliminatedCard, setShowEliminatedCard] = useState(false);
 
-  const currentPlayer = gameState.players.find(p => p.id === socket?.id);
+  const currentPlayer = gameState.players.find(p => p.id === playerId);
   const eliminatedPlayer = gameState.players
     .find(p => p.id === gameState.lastEliminatedId);
 
@@ -43,17 +43,11 @@ export const Results = () => {
   };
 
   useEffect(() => {
-    if (gameState.lastEliminatedId && gameState.votingResults) {
-      // Count votes for each player to determine if there was a tie
-      const voteCount: Record<string, number> = {};
-      Object.values(gameState.votingResults).forEach(targetId => {
-        voteCount[targetId] = (voteCount[targetId] || 0) + 1;
-      });
-
-      const maxVotes = Math.max(...Object.values(voteCount));
-      const mostVotedPlayers = Object.entries(voteCount)
-        .filter(([_, votes]) => votes === maxVotes)
-        .map(([id]) => id);
+    if (gameState.lastEliminatedId) {
+      // Spin the roulette if the eliminated player was picked at random among the tied players
+      const { tieBreak } = gameState;
+      const pickedAtRandom = tieBreak && (tieBreak.rule === "random" || tieBreak.decidedAtRandom);
+      const mostVotedPlayers = pickedAtRandom ? tieBreak.tiedPlayerIds : [gameState.lastEliminatedId];
 
       setTieBreakerPlayers(mostVotedPlayers);
 
@@ -70,8 +64,10 @@ export const Results = () => {
   }, [gameState.lastEliminatedId, gameState.votingResults]);
 
   const currentPlayerGotEliminated = eliminatedPlayer?.id === currentPlayer?.id;
-  const isMrWhiteGuessing = eliminatedPlayer?.role === "mrwhite" && !gameState.mrWhiteGuess;
-  const canContinue = isHost && !isMrWhiteGuessing;
+  const isMrWhiteGuessing = isMrWhiteGuessPending(gameState);
+  // In a local game Mr. White types the guess on the shared device
+  const canGuess = isMrWhiteGuessing && (currentPlayerGotEliminated || isLocal);
+  const canContinue = isHost && !isMrWhiteGuessing && gameState.mrWhiteGuessVerdict !== "pendingReview";
 
   // Sort players by speaking order (and filter out eliminated players)
   const activePlayers = gameState.speakingOrder
@@ -83,32 +79,28 @@ export const Results = () => {
       return;
     }
 
-    if (isHost) {
-      submitMrWhiteGuess(guess.trim());
-    } else {
-      // Send guess to host using the correct signature
-      sendToHost("submitMrWhiteGuess", guess.trim());
-    }
+    submitMrWhiteGuess(guess.trim());
   };
 
   const handleContinue = () => {
-    eliminatePlayer(eliminatedPlayer?.id);
-    setGameState((prev) => {
-      const gameWinner = checkGameEnd(prev.players);
-
-      return {
-        ...prev,
-        phase: gameWinner ? "gameEnd" : "discussion",
-        winner: gameWinner || undefined,
-        votingResults: {},
-      };
-    });
+    continueGame();
   };
 
   return (
     <div className="max-w-md mx-auto p-6 space-y-6 animate-fade-in">
       <h2 className="text-2xl font-bold text-center mb-4 text-white">Results</h2>
 
+      <TieBreakNotice />
+
+      {!gameState.lastEliminatedId && (
+        <Card className="p-6 text-center glass-morphism">
+          <h3 className="text-xl font-bold text-white">Nobody was eliminated</h3>
+          {gameState.tieBreak?.rule !== "noElimination" && (
+            <p className="text-white/80 mt-2">Time ran out before anyone voted.</p>
+          )}
+        </Card>
+      )}
+
       {showEliminatedCard && eliminatedPlayer && (
         <Card className="p-6 text-center glass-morphism">
           <h3 className="text-xl font-bold mb-4 text-white">
@@ -122,15 +114,10 @@ export const Results = () => {
                 : eliminatedPlayer.role}
             </span>
           </p>
-          {eliminatedPlayer.role !== "mrwhite" && currentPlayer?.isEliminated && !currentPlayerGotEliminated && (
-            <p className="text-white/80">
-              Their word was: {eliminatedPlayer.word}
-            </p>
-          )}
 
-          {isMrWhiteGuessing && currentPlayerGotEliminated && (
+          {canGuess && (
             <div className="mt-4 space-y-4">
-              <p className="text-white/80">Make your final guess!</p>
+              <p className="text-white/80">{isLocal ? `${eliminatedPlayer.name}, make your final guess!` : "Make your final guess!"}</p>
               <div className="flex gap-2">
                 <Input
                   value={guess}
@@ -155,7 +142,7 @@ export const Results = () => {
       <PlayerList
         players={activePlayers}
         votingResults={gameState.votingResults}
-        currentPlayerId={socket?.id}
+        currentPlayerId={playerId}
         tieBreakerPlayers={
           gameState.mrWhiteGuess == null // prevent playing tiebreaker animation again after mrWhite guess
           ? tieBreakerPlayers : []
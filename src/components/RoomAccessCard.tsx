@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { useGame } from "../context/GameContext";
+import { useWebSocket } from "../context/WebSocketContext";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Lock, LockOpen } from "lucide-react";
+import { MAX_ROOM_PASSWORD_LENGTH } from "@server/game/engine";
+
+// Who can find and join an online room: the lobby listing, an optional password and the lock
+export const RoomAccessCard = () => {
+  const { gameState, isHost, updateSettings } = useGame();
+  const { setRoomPassword, lockRoom } = useWebSocket();
+  const [password, setPassword] = useState("");
+  const { settings } = gameState;
+
+  return (
+    <Card className="p-6 bg-white/5">
+      <h3 className="text-lg font-semibold text-white mb-6">Room Access</h3>
+      <div className="space-y-4">
+        <label className="flex items-center justify-between gap-4">
+          <span className="text-white/90">List in the public lobby</span>
+          <Switch
+            checked={settings.visibility === "public"}
+            onCheckedChange={(checked) => updateSettings({ ...settings, visibility: checked ? "public" : "private" })}
+            disabled={!isHost}
+          />
+        </label>
+
+        <label className="flex items-center justify-between gap-4">
+          <span className="text-white/90">
+            Lock the room
+            <span className="block text-sm text-white/50">Nobody new can join, players who lose their connection can still return</span>
+          </span>
+          <Switch checked={!!gameState.isLocked} onCheckedChange={lockRoom} disabled={!isHost} />
+        </label>
+
+        <div className="flex items-center gap-2 text-white/90">
+          {gameState.hasPassword ? <Lock className="h-4 w-4" /> : <LockOpen className="h-4 w-4" />}
+          <span>{gameState.hasPassword ? "Joining needs a password" : "Anyone with the game link can join"}</span>
+        </div>
+
+        {isHost && (
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setRoomPassword(password);
+              setPassword("");
+            }}
+          >
+            <Input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder={gameState.hasPassword ? "New password" : "Password"}
+              maxLength={MAX_ROOM_PASSWORD_LENGTH}
+              className="flex-1 bg-secondary/20 border-secondary/30"
+            />
+            <Button type="submit" disabled={!password} className="bg-primary hover:bg-primary/90">
+              Set
+            </Button>
+            {gameState.hasPassword && (
+              <Button type="button" variant="outline" onClick={() => setRoomPassword("")}>
+                Remove
+              </Button>
+            )}
+          </form>
+        )}
+      </div>
+    </Card>
+  );
+};
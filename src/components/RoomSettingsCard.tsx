@@ -0,0 +1,208 @@
+import { useGame } from "../context/GameContext";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RoomSettings } from "@/types/game";
+import { MAX_MR_WHITE_GUESS_ATTEMPTS, MAX_PLAYERS, MIN_PLAYERS } from "@server/game/engine";
+import { getRoomWordPacks } from "@server/game/wordPairs";
+
+const TIMER_OPTIONS = [0, 30, 45, 60, 90, 120];
+const POINT_OPTIONS = [0, 1, 2, 3, 4, 5, 6, 8, 10, 12, 15, 20];
+
+const TIE_BREAK_LABELS: Record<RoomSettings["tieBreakRule"], string> = {
+  random: "Random pick",
+  revote: "Revote",
+  noElimination: "Nobody leaves",
+  extraDescription: "Extra round",
+};
+
+const GUESS_STRICTNESS_LABELS: Record<RoomSettings["guessStrictness"], string> = {
+  strict: "Exact word",
+  normal: "Allow a typo",
+  lenient: "Allow typos",
+};
+
+const DESCRIPTION_MODE_LABELS: Record<RoomSettings["descriptionMode"], string> = {
+  typed: "Typed",
+  spoken: "Out loud",
+};
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+interface SettingSelectProps {
+  label: string;
+  value: string;
+  options: { value: string; label: string }[];
+  onChange: (value: string) => void;
+  disabled: boolean;
+}
+
+const SettingSelect = ({ label, value, options, onChange, disabled }: SettingSelectProps) => (
+  <div className="flex items-center justify-between gap-4">
+    <span className="text-white/90">{label}</span>
+    <Select value={value} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger className="w-36 bg-white/10">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+// Room settings, editable by the host and read-only for everyone else
+export const RoomSettingsCard = () => {
+  const { gameState, isHost, isLocal, updateSettings } = useGame();
+  const settings = gameState.settings;
+
+  const timerOptions = TIMER_OPTIONS.map((seconds) => ({
+    value: String(seconds),
+    label: seconds === 0 ? "Off" : `${seconds} seconds`,
+  }));
+  const pointOptions = POINT_OPTIONS.map((points) => ({ value: String(points), label: `${points} points` }));
+
+  const toggleWordPack = (packId: string, selected: boolean) => {
+    const wordPackIds = selected
+      ? [...settings.wordPackIds, packId]
+      : settings.wordPackIds.filter((id) => id !== packId);
+    updateSettings({ ...settings, wordPackIds });
+  };
+
+  return (
+    <Card className="p-6 bg-white/5">
+      <h3 className="text-lg font-semibold text-white mb-6">Room Settings</h3>
+      <div className="space-y-4">
+        <SettingSelect
+          label="Timer per speaker"
+          value={String(settings.timers.speakerSeconds)}
+          options={timerOptions}
+          onChange={(value) => updateSettings({ ...settings, timers: { ...settings.timers, speakerSeconds: Number(value) } })}
+          disabled={!isHost}
+        />
+        <SettingSelect
+          label="Voting timer"
+          value={String(settings.timers.votingSeconds)}
+          options={timerOptions}
+          onChange={(value) => updateSettings({ ...settings, timers: { ...settings.timers, votingSeconds: Number(value) } })}
+          disabled={!isHost}
+        />
+        <SettingSelect
+          label="Max players"
+          value={String(settings.maxPlayers)}
+          options={range(Math.max(MIN_PLAYERS, gameState.players.length), MAX_PLAYERS).map((count) => ({ value: String(count), label: `${count} players` }))}
+          onChange={(value) => updateSettings({ ...settings, maxPlayers: Number(value) })}
+          disabled={!isHost}
+        />
+        <SettingSelect
+          label="Descriptions"
+          value={settings.descriptionMode}
+          options={Object.entries(DESCRIPTION_MODE_LABELS).map(([value, label]) => ({ value, label }))}
+          onChange={(value) => updateSettings({ ...settings, descriptionMode: value as RoomSettings["descriptionMode"] })}
+          disabled={!isHost}
+        />
+        <SettingSelect
+          label="On a tie"
+          value={settings.tieBreakRule}
+          options={Object.entries(TIE_BREAK_LABELS).map(([value, label]) => ({ value, label }))}
+          onChange={(value) => updateSettings({ ...settings, tieBreakRule: value as RoomSettings["tieBreakRule"] })}
+          disabled={!isHost}
+        />
+        <SettingSelect
+          label="Mr. White guesses"
+          value={String(settings.mrWhiteGuessAttempts)}
+          options={range(1, MAX_MR_WHITE_GUESS_ATTEMPTS).map((count) => ({ value: String(count), label: `${count}` }))}
+          onChange={(value) => updateSettings({ ...settings, mrWhiteGuessAttempts: Number(value) })}
+          disabled={!isHost}
+        />
+        <SettingSelect
+          label="Mr. White's guess"
+          value={settings.guessStrictness}
+          options={Object.entries(GUESS_STRICTNESS_LABELS).map(([value, label]) => ({ value, label }))}
+          onChange={(value) => updateSettings({ ...settings, guessStrictness: value as RoomSettings["guessStrictness"] })}
+          disabled={!isHost}
+        />
+        <label className="flex items-center justify-between gap-4">
+          <span className="text-white/90">Host decides on close guesses (another player if the host guessed)</span>
+          <Switch
+            checked={settings.hostReviewsCloseGuesses}
+            onCheckedChange={(checked) => updateSettings({ ...settings, hostReviewsCloseGuesses: checked })}
+            disabled={!isHost}
+          />
+        </label>
+        <label className="flex items-center justify-between gap-4">
+          <span className="text-white/90">Mr. White may guess during the discussion</span>
+          <Switch
+            checked={settings.mrWhiteCanGuessEarly}
+            onCheckedChange={(checked) => updateSettings({ ...settings, mrWhiteCanGuessEarly: checked })}
+            disabled={!isHost}
+          />
+        </label>
+
+        {!isLocal && (
+          <label className="flex items-center justify-between gap-4">
+            <span className="text-white/90">Spectators see every role and word</span>
+            <Switch
+              checked={settings.spectatorsSeeRoles}
+              onCheckedChange={(checked) => updateSettings({ ...settings, spectatorsSeeRoles: checked })}
+              disabled={!isHost}
+            />
+          </label>
+        )}
+
+        <div className="space-y-2">
+          <span className="text-white/90">Word packs</span>
+          {getRoomWordPacks(gameState.customWordPacks).map((pack) => (
+            <label key={pack.id} className="flex items-center gap-3 text-white/80">
+              <Checkbox
+                checked={settings.wordPackIds.includes(pack.id)}
+                onCheckedChange={(checked) => toggleWordPack(pack.id, checked === true)}
+                disabled={!isHost}
+              />
+              {pack.name} ({pack.pairs.length} pairs)
+            </label>
+          ))}
+        </div>
+
+        <label className="flex items-center justify-between gap-4">
+          <span className="text-white/90">Randomly swap which word the majority gets</span>
+          <Switch
+            checked={settings.swapWordSides}
+            onCheckedChange={(checked) => updateSettings({ ...settings, swapWordSides: checked })}
+            disabled={!isHost}
+          />
+        </label>
+
+        <div className="space-y-4 pt-2">
+          <span className="text-white/90">Points for winning</span>
+          <SettingSelect
+            label="Civilians"
+            value={String(settings.scoring.civilian)}
+            options={pointOptions}
+            onChange={(value) => updateSettings({ ...settings, scoring: { ...settings.scoring, civilian: Number(value) } })}
+            disabled={!isHost}
+          />
+          <SettingSelect
+            label="Undercovers"
+            value={String(settings.scoring.undercover)}
+            options={pointOptions}
+            onChange={(value) => updateSettings({ ...settings, scoring: { ...settings.scoring, undercover: Number(value) } })}
+            disabled={!isHost}
+          />
+          <SettingSelect
+            label="Mr. White"
+            value={String(settings.scoring.mrwhite)}
+            options={pointOptions}
+            onChange={(value) => updateSettings({ ...settings, scoring: { ...settings.scoring, mrwhite: Number(value) } })}
+            disabled={!isHost}
+          />
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -1,13 +1,17 @@
 import { useGame } from "../context/GameContext";
-import { useWebSocket } from "../context/WebSocketContext";
 import { Button } from "@/components/ui/button";
 import { useEffect, useState } from "react";
 import { PlayerList } from "./shared/PlayerList";
 import { useSound } from "@/context/SoundContext";
+import { CountdownTimer } from "./shared/CountdownTimer";
+import { TieBreakNotice } from "./shared/TieBreakNotice";
+import { PassDeviceScreen } from "./shared/PassDeviceScreen";
+import { useLocalGame } from "@/context/LocalGameContext";
+import { getVoteCandidateIds } from "@server/game/engine";
 
 export const VotingScreen = () => {
-  const { gameState, submitVote } = useGame();
-  const { socket, isHost, sendToHost } = useWebSocket();
+  const { gameState, playerId, isHost, isLocal, isSpectator, submitVote } = useGame();
+  const localGame = useLocalGame();
   const { playSound } = useSound();
   const [selectedPlayer, setSelectedPlayer] = useState<string>("");
   
@@ -17,38 +21,61 @@ export const VotingScreen = () => {
     playSound("/sounds/new-page.mp3");
   }, []);
 
-  const currentPlayer = gameState.players.find(p => p.id === socket?.id);
+  const currentPlayer = gameState.players.find(p => p.id === playerId);
   const hasVoted = currentPlayer && gameState.votingResults?.[currentPlayer.id];
   const isEliminated = currentPlayer?.isEliminated;
+  const candidateIds = getVoteCandidateIds(gameState);
 
   // Sort players by speaking order (and filter out eliminated players)
   const activePlayers = gameState.speakingOrder
     .map(id => gameState.players.find(p => p.id === id));
 
-  // Don't show voting UI if player is eliminated
-  if (isEliminated) {
+  // In a local game the players vote one after another on the same device,
+  // skipping those who could only vote for themselves during a revote
+  const nextVoter = gameState.players.find(p =>
+    !p.isEliminated && !gameState.votingResults?.[p.id] && candidateIds.some(id => id !== p.id)
+  );
+  if (localGame && nextVoter && playerId !== nextVoter.id) {
+    return (
+      <PassDeviceScreen
+        playerName={nextVoter.name}
+        hint="Votes stay secret until everyone has voted."
+        actionLabel={`I'm ${nextVoter.name}, cast my vote`}
+        onConfirm={() => {
+          setSelectedPlayer("");
+          localGame.handDeviceTo(nextVoter.id);
+        }}
+      />
+    );
+  }
+
+  // Don't show voting UI if player is eliminated or only watching
+  if (isEliminated || isSpectator) {
     return (
       <div className="max-w-md mx-auto p-6 space-y-6 animate-fade-in">
         <h2 className="text-2xl font-bold text-center mb-4 text-gradient">Voting in Progress</h2>
+        <CountdownTimer timer={gameState.timer} label="Voting closes in" />
+        <TieBreakNotice />
         <PlayerList
           players={activePlayers}
           votingResults={gameState.votingResults}
-          currentPlayerId={socket?.id}
+          currentPlayerId={playerId}
+          descriptionHistory={gameState.descriptionHistory}
         />
       </div>
     );
   }
 
+  // During a revote only the tied players can be voted for
+  const handleSelectPlayer = (targetId: string) => {
+    if (candidateIds.includes(targetId)) setSelectedPlayer(targetId);
+  };
+
   const handleVote = () => {
     playSound("/sounds/submit-vote.wav");
     if (currentPlayer && selectedPlayer) {
       //playSound("/sounds/vote.mp3");
-      if (isHost) {
-        submitVote(currentPlayer.id, selectedPlayer);
-      } else {
-        // Use the correct signature for WebSocketContext.sendToHost
-        sendToHost("submitVote", currentPlayer.id, selectedPlayer);
-      }
+      submitVote(currentPlayer.id, selectedPlayer);
     }
   };
 
@@ -56,12 +83,17 @@ export const VotingScreen = () => {
     <div className="max-w-md mx-auto p-6 space-y-6 animate-fade-in">
       <h2 className="text-2xl font-bold text-center mb-4 text-gradient">Vote to Eliminate</h2>
 
+      <CountdownTimer timer={gameState.timer} label="Voting closes in" warn={!hasVoted} />
+
+      <TieBreakNotice />
+
       <PlayerList
         players={activePlayers}
         selectedPlayer={selectedPlayer}
-        onPlayerClick={!hasVoted ? setSelectedPlayer : undefined}
-        votingResults={gameState.votingResults}
-        currentPlayerId={socket?.id}
+        onPlayerClick={!hasVoted ? handleSelectPlayer : undefined}
+        votingResults={isLocal ? undefined : gameState.votingResults}
+        currentPlayerId={playerId}
+        descriptionHistory={gameState.descriptionHistory}
       />
 
       {!hasVoted && (
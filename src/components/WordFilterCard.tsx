@@ -0,0 +1,126 @@
+import { useGame } from "../context/GameContext";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AgeRating, WordPairDifficulty, WordPairFilter } from "@/types/game";
+import { filterWordPairs, getRoomWordPacks, getWordPairCategories, getWordPairs } from "@server/game/wordPairs";
+import { AGE_RATINGS, WORD_PAIR_DIFFICULTIES } from "@server/game/wordPairs/format";
+
+// Names of the categories used by the built-in packs; custom categories are shown as they are
+const CATEGORY_LABELS: Record<string, string> = {
+  animals: "Animals",
+  food: "Food & drinks",
+  brands: "Brands",
+  people: "Famous people",
+  entertainment: "Movies, music & games",
+  sports: "Sports",
+  places: "Places",
+  nature: "Nature & space",
+  travel: "Travel & transport",
+  objects: "Everyday objects",
+  jobs: "Jobs",
+  other: "Other",
+};
+
+const DIFFICULTY_LABELS: Record<WordPairDifficulty, string> = {
+  easy: "Easy",
+  medium: "Medium",
+  hard: "Hard",
+};
+
+const AGE_RATING_LABELS: Record<AgeRating, string> = {
+  all: "Everyone",
+  teen: "Teens",
+  adult: "Adults",
+};
+
+// Toggle a value of a filter list where an empty list stands for "everything"
+const toggleValue = <T,>(selected: T[], allValues: T[], value: T, checked: boolean): T[] => {
+  const current = selected.length > 0 ? selected : allValues;
+  const next = checked ? [...current, value] : current.filter((v) => v !== value);
+  return allValues.every((v) => next.includes(v)) ? [] : next;
+};
+
+// Filter for the word pairs of the selected packs, editable by the host
+export const WordFilterCard = () => {
+  const { gameState, isHost, updateSettings } = useGame();
+  const settings = gameState.settings;
+  const { wordFilter } = settings;
+
+  const selectedPairs = getWordPairs(getRoomWordPacks(gameState.customWordPacks), settings.wordPackIds);
+  const categories = getWordPairCategories(selectedPairs);
+  const matchingPairs = filterWordPairs(selectedPairs, wordFilter);
+
+  const updateWordFilter = (changes: Partial<WordPairFilter>) =>
+    updateSettings({ ...settings, wordFilter: { ...wordFilter, ...changes } });
+
+  const isChecked = <T,>(selected: T[], value: T) => selected.length === 0 || selected.includes(value);
+
+  return (
+    <Card className="p-6 bg-white/5">
+      <h3 className="text-lg font-semibold text-white mb-2">Word Filter</h3>
+      <p className="text-white/70 text-sm mb-6">
+        {matchingPairs.length} of {selectedPairs.length} word pairs match
+      </p>
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <span className="text-white/90">Categories</span>
+          <div className="grid grid-cols-2 gap-2">
+            {categories.map((category) => (
+              <label key={category} className="flex items-center gap-3 text-white/80">
+                <Checkbox
+                  checked={isChecked(wordFilter.categories, category)}
+                  onCheckedChange={(checked) =>
+                    updateWordFilter({ categories: toggleValue(wordFilter.categories, categories, category, checked === true) })
+                  }
+                  disabled={!isHost}
+                />
+                {CATEGORY_LABELS[category] ?? category}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-white/90">Difficulty</span>
+          <div className="flex gap-4">
+            {WORD_PAIR_DIFFICULTIES.map((difficulty) => (
+              <label key={difficulty} className="flex items-center gap-3 text-white/80">
+                <Checkbox
+                  checked={isChecked(wordFilter.difficulties, difficulty)}
+                  onCheckedChange={(checked) =>
+                    updateWordFilter({
+                      difficulties: toggleValue(wordFilter.difficulties, WORD_PAIR_DIFFICULTIES, difficulty, checked === true),
+                    })
+                  }
+                  disabled={!isHost}
+                />
+                {DIFFICULTY_LABELS[difficulty]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-white/90">Suitable for</span>
+          <Select
+            value={wordFilter.maxAgeRating}
+            onValueChange={(value) => updateWordFilter({ maxAgeRating: value as AgeRating })}
+            disabled={!isHost}
+          >
+            <SelectTrigger className="w-36 bg-white/10">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {AGE_RATINGS.map((rating) => (
+                <SelectItem key={rating} value={rating}>
+                  {AGE_RATING_LABELS[rating]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </Card>
+  );
+};
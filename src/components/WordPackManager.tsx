@@ -0,0 +1,167 @@
+import { useRef, useState } from "react";
+import { useGame } from "../context/GameContext";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Download, Pencil, Plus, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { useTranslation } from "react-i18next";
+import { WordPack } from "@/types/game";
+import {
+  exportWordPackCsv,
+  exportWordPackJson,
+  parseWordPackCsv,
+  parseWordPackJson,
+  WordPackData,
+} from "@server/game/wordPairs/format";
+
+const downloadFile = (fileName: string, contents: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+interface WordPackDialogProps {
+  pack: WordPack;
+  onClose: () => void;
+}
+
+// Create a word pack, or edit an existing one, by typing one pair per line
+const WordPackDialog = ({ pack, onClose }: WordPackDialogProps) => {
+  const { saveWordPack } = useGame();
+  const [name, setName] = useState(pack.name);
+  const [language, setLanguage] = useState(pack.language);
+  const [pairs, setPairs] = useState(pack.pairs.length > 0 ? exportWordPackCsv(pack) : "");
+
+  const handleSave = () => {
+    try {
+      const data = parseWordPackCsv(pairs, { name, language });
+      saveWordPack({ ...data, id: pack.id });
+      onClose();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  return (
+    <DialogContent>
+      <DialogHeader>
+        <DialogTitle>{pack.id ? "Edit word pack" : "New word pack"}</DialogTitle>
+      </DialogHeader>
+      <div className="space-y-4">
+        <div className="flex gap-2">
+          <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" className="flex-1" />
+          <Input value={language} onChange={(e) => setLanguage(e.target.value)} placeholder="Language" className="w-24" />
+        </div>
+        <Textarea
+          value={pairs}
+          onChange={(e) => setPairs(e.target.value)}
+          placeholder={"One pair per line, optionally followed by category, difficulty, age rating and aliases of each word, e.g.\nSun,Moon\nCoffee,Tea,food,easy,all,Espresso|Latte"}
+          rows={10}
+        />
+      </div>
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave}>Save</Button>
+      </DialogFooter>
+    </DialogContent>
+  );
+};
+
+// Custom word packs of the room. The host creates, imports and deletes them; everyone can export them.
+export const WordPackManager = () => {
+  const { gameState, isHost, saveWordPack, deleteWordPack } = useGame();
+  const { i18n } = useTranslation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [editedPack, setEditedPack] = useState<WordPack | null>(null);
+
+  const handleImport = async (file: File) => {
+    const defaults = {
+      name: file.name.replace(/\.[^.]+$/, ""),
+      language: i18n.language.split("-")[0],
+    };
+
+    try {
+      const text = await file.text();
+      const data: WordPackData = file.name.toLowerCase().endsWith(".json")
+        ? parseWordPackJson(text, defaults)
+        : parseWordPackCsv(text, defaults);
+      saveWordPack({ ...data, id: "" });
+      toast.success(`Imported ${data.pairs.length} word pairs`);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  return (
+    <Card className="p-6 bg-white/5">
+      <h3 className="text-lg font-semibold text-white mb-6">Custom Word Packs</h3>
+      <div className="space-y-3">
+        {gameState.customWordPacks.length === 0 && (
+          <p className="text-white/70 text-sm">No custom word packs yet.</p>
+        )}
+
+        {gameState.customWordPacks.map((pack) => (
+          <div key={pack.id} className="flex items-center justify-between gap-2 p-3 rounded-lg bg-white/5">
+            <span className="text-white truncate">
+              {pack.name} <span className="text-white/60 text-sm">({pack.language}, {pack.pairs.length} pairs)</span>
+            </span>
+            <div className="flex gap-1 shrink-0">
+              <Button variant="ghost" size="sm" onClick={() => downloadFile(`${pack.name}.json`, exportWordPackJson(pack), "application/json")}>
+                <Download className="h-4 w-4 mr-1" />JSON
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => downloadFile(`${pack.name}.csv`, exportWordPackCsv(pack), "text/csv")}>
+                <Download className="h-4 w-4 mr-1" />CSV
+              </Button>
+              {isHost && (
+                <>
+                  <Button variant="ghost" size="icon" onClick={() => setEditedPack(pack)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => deleteWordPack(pack.id)}>
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {isHost && (
+          <div className="flex gap-2 pt-2">
+            <Button
+              variant="outline"
+              className="flex-1 bg-white/10"
+              onClick={() => setEditedPack({ id: "", name: "", language: i18n.language.split("-")[0], pairs: [] })}
+            >
+              <Plus className="h-4 w-4 mr-2" />Create
+            </Button>
+            <Button variant="outline" className="flex-1 bg-white/10" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />Import JSON/CSV
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = "";
+              }}
+            />
+          </div>
+        )}
+      </div>
+
+      <Dialog open={editedPack !== null} onOpenChange={(open) => !open && setEditedPack(null)}>
+        {editedPack && <WordPackDialog pack={editedPack} onClose={() => setEditedPack(null)} />}
+      </Dialog>
+    </Card>
+  );
+};
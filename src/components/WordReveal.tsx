@@ -1,16 +1,55 @@
 import { useGame } from "../context/GameContext";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { useWebSocket } from "../context/WebSocketContext";
 import { PlayerList } from "./shared/PlayerList";
 import { useEffect, useState } from "react";
 import { useSound } from "@/context/SoundContext";
 import { Input } from "./ui/input";
 import { toast } from "sonner";
+import { getCurrentSpeakerId } from "@server/game/engine";
+import { CountdownTimer } from "./shared/CountdownTimer";
+import { TieBreakNotice } from "./shared/TieBreakNotice";
+import { MrWhiteGuess } from "./shared/MrWhiteGuess";
+import { EarlyGuessCard } from "./EarlyGuessCard";
+import { PassDeviceScreen } from "./shared/PassDeviceScreen";
+import { useLocalGame } from "@/context/LocalGameContext";
+import { Player } from "@/types/game";
+
+// The word of a player, or the hint that they are Mr. White
+const WordCard = ({ player }: { player: Player }) => (
+  <Card className="p-6 text-center glass-morphism">
+    <div className="space-y-4">
+      {player.role === "mrwhite" ? (
+        <p className="text-lg text-white">You are <span className="font-bold text-primary">Mr.White</span></p>
+      ) : (
+        <p className="text-lg text-white">
+          Your word {player.isEliminated ? "was" : "is"}: <span className="font-bold text-primary">{player.word}</span>
+        </p>
+      )}
+      <p className="text-sm text-white/70">
+        {player.role === "mrwhite"
+          ? (
+            <>
+              Listen carefully and try to blend in!
+              <br />
+              Figure out the secret word from others descriptions.
+            </>
+          )
+          : (
+            <>
+              Describe the word without saying it directly.
+              <br />
+              Be clever - there might be infiltrators among us!
+            </>
+          )}
+      </p>
+    </div>
+  </Card>
+);
 
 export const WordReveal = () => {
-  const { gameState, setPhase, submitDescription, rerollWords } = useGame();
-  const { socket, isHost, sendToHost } = useWebSocket();
+  const { gameState, playerId, isHost, isLocal, isSpectator, startVoting, submitDescription, finishSpeaking, rerollWords } = useGame();
+  const localGame = useLocalGame();
   const { playSound } = useSound();
   
   console.log("WordReveal rendering. IsHost:", isHost);
@@ -25,38 +64,55 @@ export const WordReveal = () => {
     }
   }, []);
 
-  const currentPlayer = gameState.players.find(p => p.id === socket?.id);
+  const currentPlayer = gameState.players.find(p => p.id === playerId);
 
   const handleStartVoting = () => {
-    setPhase("voting");
+    startVoting();
   };
 
   const handleSubmitDescription = () => {
-    if (!description.trim()) return;
+    // The server rejects descriptions that give away a secret word
+    if (!currentPlayer || !description.trim()) return;
 
-    if (description.trim().toLowerCase() === currentPlayer.word.toLowerCase()) {
-      toast.error("You can't use the word directly!");
-      return;
-    }
-
-    if (isHost) {
-      submitDescription(currentPlayer.id, description.trim());
-    } else {
-      // Use the correct signature for WebSocketContext.sendToHost
-      sendToHost("submitDescription", currentPlayer.id, description.trim());
-    }
+    submitDescription(currentPlayer.id, description.trim());
     setDescription("");
   };
 
-  if (!socket) {
-    return <div className="text-white text-center">Connecting to game server...</div>;
+  // In a local game every player looks at their word in private before the discussion starts
+  const nextToReveal = localGame?.playersToReveal[0];
+  if (localGame && nextToReveal) {
+    if (playerId !== nextToReveal.id) {
+      return (
+        <PassDeviceScreen
+          playerName={nextToReveal.name}
+          hint="Make sure nobody else can see the screen before you continue."
+          actionLabel={`I'm ${nextToReveal.name}, show my word`}
+          onConfirm={() => localGame.handDeviceTo(nextToReveal.id)}
+        />
+      );
+    }
+
+    return (
+      <div className="max-w-md mx-auto p-6 space-y-4 animate-fade-in">
+        <h2 className="text-2xl font-bold text-center mb-4 text-white">{nextToReveal.name}</h2>
+        <WordCard player={nextToReveal} />
+        <Button
+          onClick={() => localGame.markWordSeen(nextToReveal.id)}
+          size="lg"
+          className="w-full bg-primary hover:bg-primary/90"
+        >
+          Hide my word and pass the phone on
+        </Button>
+      </div>
+    );
   }
 
-  if (!currentPlayer) {
+  // In a local game the device belongs to whoever is speaking, which may be nobody
+  if (!currentPlayer && !isLocal && !isSpectator) {
     return (
       <div className="text-white text-center">
         <p>Waiting for game data...</p>
-        <p className="text-sm opacity-70">Your ID: {socket.id}</p>
+        <p className="text-sm opacity-70">Your ID: {playerId}</p>
       </div>
     );
   }
@@ -69,53 +125,43 @@ export const WordReveal = () => {
     : [];
 
 
-  const currentSpeakerIndex = gameState.speakingOrder ? speakingOrderPlayers.findIndex(p => !p.submittedDescription) : 0;
-  const myIndex = gameState.speakingOrder ? speakingOrderPlayers.findIndex(p => p.id === currentPlayer.id) : 0;
-  const isMyTurn = gameState.speakingOrder && currentSpeakerIndex === myIndex;
+  const currentSpeakerId = getCurrentSpeakerId(gameState);
+  const isMyTurn = !!currentPlayer && currentSpeakerId === currentPlayer.id;
+  // In spoken mode the description is said out loud and typing a note is optional
+  const isSpoken = gameState.settings.descriptionMode === "spoken";
+  const turnTitle = isSpoken
+    ? isLocal ? `${currentPlayer?.name}, describe your word out loud!` : "Your turn: Describe your word out loud!"
+    : isLocal ? `${currentPlayer?.name}, describe your word!` : "Your turn: Describe your word!";
+  const currentSpeaker = speakingOrderPlayers.find(p => p.id === currentSpeakerId);
   
-  console.log("Speaking order:", gameState.speakingOrder, "Current speaker index:", currentSpeakerIndex, "My index:", myIndex);
+  console.log("Speaking order:", gameState.speakingOrder, "Current speaker:", currentSpeakerId);
 
   return (
     <div className="max-w-md mx-auto p-6 space-y-4 animate-fade-in">
-      <h2 className="text-2xl font-bold text-center mb-4 text-white">{currentPlayer.isEliminated ? "You're eliminated" : "Discussion"}</h2>
-      <Card className="p-6 text-center glass-morphism">
-        <div className="space-y-4">
-          {currentPlayer.role === "mrwhite" ? (
-            <p className="text-lg text-white">You are <span className="font-bold text-primary">Mr.White</span></p>
-          ) : (
-            <p className="text-lg text-white">
-              Your word {currentPlayer.isEliminated ? "was" : "is"}: <span className="font-bold text-primary">{currentPlayer.word}</span>
-            </p>
-          )}
-          <p className="text-sm text-white/70">
-            {currentPlayer.role === "mrwhite"
-              ? (
-                <>
-                  Listen carefully and try to blend in!
-                  <br />
-                  Figure out the secret word from others descriptions.
-                </>
-              )
-              : (
-                <>
-                  Describe the word without saying it directly.
-                  <br />
-                  Be clever - there might be infiltrators among us!
-                </>
-              )}
-          </p>
-        </div>
-      </Card>
+      <h2 className="text-2xl font-bold text-center mb-4 text-white">{isSpectator ? "Spectating" : currentPlayer?.isEliminated ? "You're eliminated" : "Discussion"}</h2>
+      {!isLocal && currentPlayer && <WordCard player={currentPlayer} />}
 
       <div className="mt-8 space-y-4">
-        <h3 className="text-xl font-semibold text-white text-center">{isMyTurn ? "Your turn: Describe your word!" : "Speaking Order"}</h3>
+        <TieBreakNotice />
+        <MrWhiteGuess />
+        <EarlyGuessCard />
+
+        <h3 className="text-xl font-semibold text-white text-center">{isMyTurn ? turnTitle : "Speaking Order"}</h3>
+
+        {gameState.timer?.kind === "speaker" && (
+          <CountdownTimer
+            timer={gameState.timer}
+            label={isMyTurn && !isLocal ? "Time left for your description" : `${currentSpeaker?.name ?? "Speaker"} is describing`}
+            warn={isMyTurn}
+          />
+        )}
 
         {isMyTurn && (
           <div className="relative flex h-10 w-full min-w-[200px]">
             <Input
               value={description}
               onChange={(e) => setDescription(e.target.value.slice(0, 100))}
-              placeholder="Enter word or phrase..."
+              placeholder={isSpoken ? "Optional note..." : "Enter word or phrase..."}
               maxLength={25}
               className="peer h-full w-full rounded-[7px] border px-3 py-2.5 pr-20 text-sm font-normal outline-none transition-all"
             />
@@ -132,10 +178,17 @@ export const WordReveal = () => {
           </div>
         )}
 
+        {isSpoken && isMyTurn && (
+          <Button onClick={finishSpeaking} size="lg" className="w-full bg-primary hover:bg-primary/90">
+            Done speaking
+          </Button>
+        )}
+
         <PlayerList
           players={speakingOrderPlayers}
-          currentPlayerId={socket.id}
+          currentPlayerId={playerId}
           speakingOrder={true}
+          descriptionHistory={gameState.descriptionHistory}
         />
       </div>
 
@@ -148,7 +201,17 @@ export const WordReveal = () => {
           >
             Start Voting
           </Button>
-          {gameState.currentRound === 1 && (
+          {isSpoken && currentSpeaker && !isMyTurn && (
+            <Button
+              onClick={finishSpeaking}
+              variant="outline"
+              size="lg"
+              className="w-full border-primary text-primary hover:bg-primary/10"
+            >
+              Next speaker
+            </Button>
+          )}
+          {gameState.currentRound === 1 && !gameState.tieBreak && (
             <Button
               onClick={() => {
                 rerollWords();
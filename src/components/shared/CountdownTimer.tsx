@@ -0,0 +1,49 @@
+import { useEffect, useRef } from "react";
+import { Timer } from "lucide-react";
+import { PhaseTimer } from "@/types/game";
+import { Progress } from "@/components/ui/progress";
+import { useCountdown } from "@/hooks/use-countdown";
+import { useSound } from "@/context/SoundContext";
+
+const WARNING_SECONDS = 5;
+
+interface CountdownTimerProps {
+  timer?: PhaseTimer;
+  label: string;
+  // Play a warning sound when time is almost up, e.g. for the current speaker
+  warn?: boolean;
+}
+
+export const CountdownTimer = ({ timer, label, warn }: CountdownTimerProps) => {
+  const { playSound } = useSound();
+  const remaining = useCountdown(timer);
+  const warnedFor = useRef<number | null>(null);
+
+  const seconds = Math.ceil(remaining / 1000);
+  const isRunningOut = seconds <= WARNING_SECONDS;
+
+  useEffect(() => {
+    if (!timer || !warn || !isRunningOut || remaining === 0) return;
+    if (warnedFor.current === timer.endsAt) return;
+
+    warnedFor.current = timer.endsAt;
+    playSound("/sounds/time-running.mp3");
+  }, [timer, warn, isRunningOut, remaining, playSound]);
+
+  if (!timer) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm text-white/80">
+        <span className="flex items-center gap-2">
+          <Timer className="h-4 w-4" />
+          {label}
+        </span>
+        <span className={`font-mono font-bold ${isRunningOut ? "text-red-400" : "text-white"}`}>
+          {Math.floor(seconds / 60)}:{String(seconds % 60).padStart(2, "0")}
+        </span>
+      </div>
+      <Progress value={(remaining / timer.duration) * 100} className="h-2 bg-white/10" />
+    </div>
+  );
+};
@@ -1,18 +1,26 @@
 import { useGame } from "@/context/GameContext";
-import { GameState } from "@/types/game";
-import { CheckCircle, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { CheckCircle, HelpCircle, XCircle } from "lucide-react";
 
 export const MrWhiteGuess = () => {
-    const { gameState } = useGame();
+    const { gameState, playerId, isLocal, reviewMrWhiteGuess } = useGame();
 
     if (!gameState.mrWhiteGuess) return null;
 
-    const isCorrect = gameState.mrWhiteGuess.toLowerCase() === gameState.majorityWord.toLowerCase();
+    // The server judges the guess, forgiving typos depending on the room settings
+    const verdict = gameState.mrWhiteGuessVerdict;
+    const isPendingReview = verdict === "pendingReview";
+    // The host judges close guesses, or another player if the host made the guess.
+    // On a shared device the table decides together.
+    const isReviewer = isLocal || (!!playerId && gameState.mrWhiteGuessReviewerId === playerId);
+    const reviewerName = gameState.players.find(p => p.id === gameState.mrWhiteGuessReviewerId)?.name;
     return (
-      <div className={`mt-4 p-4 rounded-lg ${isCorrect ? 'bg-green-500/20' : 'bg-red-500/20'}`}>
+      <div className={`mt-4 p-4 rounded-lg ${verdict === "correct" ? 'bg-green-500/20' : isPendingReview ? 'bg-yellow-500/20' : 'bg-red-500/20'}`}>
         <div className="flex items-center gap-2">
-          {isCorrect ? (
+          {verdict === "correct" ? (
             <CheckCircle className="text-green-500" />
+          ) : isPendingReview ? (
+            <HelpCircle className="text-yellow-500" />
           ) : (
             <XCircle className="text-red-500" />
           )}
@@ -20,6 +28,31 @@ export const MrWhiteGuess = () => {
             Mr. White guessed: <span className="font-bold">{gameState.mrWhiteGuess}</span>
           </p>
         </div>
+
+        {isPendingReview && (
+          <div className="mt-3 space-y-2">
+            <p className="text-sm text-white/80">
+              {isReviewer
+                ? "The guess is close. Does it count?"
+                : `The guess is close, ${reviewerName ?? "another player"} decides whether it counts.`}
+            </p>
+            {isReviewer && gameState.majorityWord && (
+              <p className="text-sm text-white/80">
+                The word is <span className="font-bold">{gameState.majorityWord}</span>
+              </p>
+            )}
+            {isReviewer && (
+              <div className="flex gap-2">
+                <Button size="sm" className="flex-1 bg-primary hover:bg-primary/90" onClick={() => reviewMrWhiteGuess(true)}>
+                  Count it
+                </Button>
+                <Button size="sm" variant="outline" className="flex-1" onClick={() => reviewMrWhiteGuess(false)}>
+                  Reject
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
       </div>
     );
-};
\ No newline at end of file
+};
@@ -0,0 +1,24 @@
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Smartphone } from "lucide-react";
+
+interface PassDeviceScreenProps {
+  playerName: string;
+  hint: string;
+  actionLabel: string;
+  onConfirm: () => void;
+}
+
+// Privacy screen of a local game, shown while the device is handed to the next player
+export const PassDeviceScreen = ({ playerName, hint, actionLabel, onConfirm }: PassDeviceScreenProps) => (
+  <div className="max-w-md mx-auto p-6 animate-fade-in">
+    <Card className="p-8 text-center glass-morphism space-y-6">
+      <Smartphone className="h-12 w-12 mx-auto text-primary" />
+      <h2 className="text-2xl font-bold text-white">Hand the phone to {playerName}</h2>
+      <p className="text-white/70">{hint}</p>
+      <Button onClick={onConfirm} size="lg" className="w-full bg-primary hover:bg-primary/90">
+        {actionLabel}
+      </Button>
+    </Card>
+  </div>
+);
@@ -1,8 +1,10 @@
 import { Card } from "@/components/ui/card";
 import { Users, UserX } from "lucide-react";
-import { Player } from "../../types/game";
+import { DescriptionEntry, Player } from "../../types/game";
 import { useEffect, useState } from "react";
 import { useSound } from "@/context/SoundContext";
+import { useGame } from "@/context/GameContext";
+import { PlayerModerationMenu } from "./PlayerModerationMenu";
 
 interface PlayerListProps {
   players: Player[];
@@ -15,6 +17,7 @@ interface PlayerListProps {
   lastEliminatedId?: string;
   showScores?: boolean;
   tieBreakerPlayers?: string[];
+  descriptionHistory?: DescriptionEntry[];
 }
 
 export const PlayerList = ({
@@ -28,8 +31,12 @@ export const PlayerList = ({
   lastEliminatedId,
   showScores,
   tieBreakerPlayers = [],
+  descriptionHistory,
 }: PlayerListProps) => {
   const { playSound } = useSound();
+  const { gameState, isHost, isLocal, isSpectator, playerId } = useGame();
+  // The host may let spectators follow the game with every role and word shown
+  const seesEveryRole = isSpectator && gameState.settings.spectatorsSeeRoles;
 
   // The player that is going to be eliminated (red highlight)
   const [highlightedPlayer, setHighlightedPlayer] = useState<string | null>(null);
@@ -98,7 +105,7 @@ export const PlayerList = ({
   const filteredEliminatedPlayers = !showEliminated ? players.filter(p => !p.isEliminated) : players;
   const displayPlayers = speakingOrder ? players : filteredEliminatedPlayers;
 
-  const currentSpeakerIndex = speakingOrder ? displayPlayers.findIndex(p => !p.submittedDescription) : 0;
+  const currentSpeakerIndex = speakingOrder ? displayPlayers.findIndex(p => !p.submittedDescription && !p.finishedSpeaking && !p.turnSkipped) : 0;
 
   return (
     <Card className="p-6 glass-morphism">
@@ -117,8 +124,9 @@ export const PlayerList = ({
             const isLastEliminated = player.id === lastEliminatedId;
             const isCurrentSpeaker = speakingOrder && index === currentSpeakerIndex;
             const isHighlighted = highlightedPlayer === player.id;
+            const descriptions = descriptionHistory?.filter(entry => entry.playerId === player.id) ?? [];
 
-            return (
+            const row = (
               <div
                 key={player.id}
                 className={`
@@ -153,13 +161,37 @@ export const PlayerList = ({
                       {player.id === currentPlayerId && (
                         <span className="text-primary ml-2">(You)</span>
                       )}
+                      {player.isAway && (
+                        <span className="text-sm text-white/50 ml-2">(away)</span>
+                      )}
                     </span>
-                    {/* Text or phrase the player has submitted this round */}
-                    {player.submittedDescription && (
+                    {/* Timeline of the player's descriptions, or only the text or phrase submitted this round */}
+                    {descriptionHistory ? (
+                      descriptions.length > 0 && (
+                        <ol className="mt-1 space-y-0.5">
+                          {descriptions.map((entry, dIndex) => (
+                            <li key={dIndex} className="text-sm text-white/70">
+                              <span className="text-white/40 mr-2">R{entry.round}</span>
+                              {entry.description}
+                            </li>
+                          ))}
+                        </ol>
+                      )
+                    ) : player.submittedDescription && (
                       <p className="text-sm text-white/70 mt-1">
                         {player.submittedDescription}
                       </p>
                     )}
+                    {speakingOrder && player.finishedSpeaking && (
+                      <p className="text-sm italic text-white/50 mt-1">
+                        Done speaking
+                      </p>
+                    )}
+                    {speakingOrder && player.turnSkipped && (
+                      <p className="text-sm italic text-white/50 mt-1">
+                        Ran out of time
+                      </p>
+                    )}
 
                     {/* Votes Overview: used in VotingScreen.tsx and Results.tsx */}
                     {showVotes && (
@@ -175,10 +207,12 @@ export const PlayerList = ({
                       </div>
                     )}
                   </div>
-                  {player.isEliminated && player.role && (
+                  {(player.isEliminated || seesEveryRole) && player.role && (
                     <div className="flex items-center gap-2">
-                      <span className="text-sm text-white/70">{player.role}</span>
-                      <UserX className="h-5 w-5 text-red-500" />
+                      <span className="text-sm text-white/70">
+                        {player.role}{seesEveryRole && player.word && ` · ${player.word}`}
+                      </span>
+                      {player.isEliminated && <UserX className="h-5 w-5 text-red-500" />}
                     </div>
                   )}
                 </div>
@@ -194,6 +228,11 @@ export const PlayerList = ({
                 )}
               </div>
             );
+
+            // The host of an online room can kick or ban the other players
+            return isHost && !isLocal && player.id !== playerId ? (
+              <PlayerModerationMenu key={player.id} player={player}>{row}</PlayerModerationMenu>
+            ) : row;
           })}
         </div>
       </div>
@@ -0,0 +1,40 @@
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuLabel,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import { Ban, UserX } from "lucide-react";
+import { ReactNode } from "react";
+import { Player } from "../../types/game";
+import { useWebSocket } from "@/context/WebSocketContext";
+
+interface PlayerModerationMenuProps {
+  player: Player;
+  children: ReactNode;
+}
+
+// Right click (or long press) on a player lets the host of an online room remove them
+export const PlayerModerationMenu = ({ player, children }: PlayerModerationMenuProps) => {
+  const { kickPlayer, banPlayer } = useWebSocket();
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
+      <ContextMenuContent>
+        <ContextMenuLabel className="max-w-[200px] truncate">{player.name}</ContextMenuLabel>
+        <ContextMenuSeparator />
+        <ContextMenuItem onSelect={() => kickPlayer(player.id)}>
+          <UserX className="h-4 w-4 mr-2" />
+          Kick
+        </ContextMenuItem>
+        <ContextMenuItem className="text-red-500 focus:text-red-500" onSelect={() => banPlayer(player.id)}>
+          <Ban className="h-4 w-4 mr-2" />
+          Ban from this room
+        </ContextMenuItem>
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+};
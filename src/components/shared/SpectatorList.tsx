@@ -0,0 +1,45 @@
+import { Card } from "@/components/ui/card";
+import { Eye } from "lucide-react";
+import { useGame } from "@/context/GameContext";
+import { PlayerModerationMenu } from "./PlayerModerationMenu";
+
+// People watching an online game; they get a seat when the next game is set up
+export const SpectatorList = () => {
+  const { gameState, playerId, isHost, isLocal, isSpectator } = useGame();
+  const { spectators } = gameState;
+
+  if (isLocal || spectators.length === 0) return null;
+
+  return (
+    <Card className="p-6 glass-morphism">
+      <div className="space-y-4">
+        <div className="flex items-center gap-2 text-white/90 text-lg">
+          <Eye className="h-5 w-5" />
+          <span>Spectators ({spectators.length})</span>
+        </div>
+
+        {isSpectator && (
+          <p className="text-sm text-white/70">
+            You're watching this game. You'll join the players when the next game is set up.
+          </p>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {spectators.map((spectator) => {
+            const chip = (
+              <span key={spectator.id} className="px-3 py-1 rounded-full bg-white/5 text-white max-w-[200px] truncate">
+                {spectator.name}
+                {spectator.id === playerId && <span className="text-primary ml-1">(You)</span>}
+                {spectator.isAway && <span className="text-sm text-white/50 ml-1">(away)</span>}
+              </span>
+            );
+
+            return isHost && spectator.id !== playerId ? (
+              <PlayerModerationMenu key={spectator.id} player={spectator}>{chip}</PlayerModerationMenu>
+            ) : chip;
+          })}
+        </div>
+      </div>
+    </Card>
+  );
+};
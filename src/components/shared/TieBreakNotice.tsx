@@ -0,0 +1,48 @@
+import { useGame } from "@/context/GameContext";
+import { GameState, TieBreak } from "@/types/game";
+import { Scale } from "lucide-react";
+
+const joinNames = (names: string[]) =>
+  names.length > 1 ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}` : names.join("");
+
+const describeTieBreak = (tieBreak: TieBreak, names: string, phase: GameState["phase"]) => {
+  if (phase === "wordReveal") {
+    return `${names} are tied. They describe their word once more before the revote.`;
+  }
+  if (phase === "voting") {
+    return `${names} are tied. Vote again, this time only for one of them.`;
+  }
+
+  if (tieBreak.decidedAtRandom) {
+    return `The revote between ${names} was tied again, so one of them was picked at random.`;
+  }
+  switch (tieBreak.rule) {
+    case "noElimination":
+      return `${names} were tied, so nobody was eliminated this round.`;
+    case "revote":
+      return `${names} were tied, so the vote was repeated between them.`;
+    case "extraDescription":
+      return `${names} were tied, described their word once more and faced a revote.`;
+    default:
+      return `${names} were tied, so one of them was picked at random.`;
+  }
+};
+
+// Explains the tie-break rule of the room while a tie is being resolved and in the results
+export const TieBreakNotice = () => {
+  const { gameState } = useGame();
+  const { tieBreak } = gameState;
+
+  if (!tieBreak) return null;
+
+  const names = joinNames(
+    tieBreak.tiedPlayerIds.map(id => gameState.players.find(p => p.id === id)?.name || "A player")
+  );
+
+  return (
+    <div className="p-4 rounded-lg bg-primary/20 flex items-center gap-3">
+      <Scale className="h-5 w-5 text-primary shrink-0" />
+      <p className="text-white text-sm">{describeTieBreak(tieBreak, names, gameState.phase)}</p>
+    </div>
+  );
+};
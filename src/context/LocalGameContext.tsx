@@ -0,0 +1,194 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from "react";
+import { GameState, Player, RoleDistribution, RoomSettings, WordPack } from "../types/game";
+import { toast } from "sonner";
+import i18n from "@/i18n";
+import * as engine from "@server/game/engine";
+import { GameRoom } from "@server/rooms/gameRoom";
+import { GameContext } from "./GameContext";
+
+// Pass-and-play on a single device: the game engine runs in the browser instead of on the server
+// and the device is handed from player to player to reveal words and cast votes.
+interface LocalGameContextType {
+  // Players who still have to look at their word since the words were dealt
+  playersToReveal: Player[];
+  addPlayer: (name: string) => void;
+  removePlayer: (playerId: string) => void;
+  // Record who is holding the device, after they confirmed it was handed to them
+  handDeviceTo: (playerId: string) => void;
+  markWordSeen: (playerId: string) => void;
+  leaveLocalGame: () => void;
+}
+
+const LocalGameContext = createContext<LocalGameContextType | undefined>(undefined);
+
+const createId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const getWordsKey = (state: GameState) => `${state.majorityWord}\n${state.undercoverWord}`;
+
+// Show a rejected action like the server does; any other error is a bug and is rethrown
+const reportEngineError = (error: unknown) => {
+  if (!(error instanceof engine.GameEngineError)) throw error;
+  toast.error(error.code ? i18n.t(`errors.${error.code}`, { defaultValue: error.message }) : error.message);
+};
+
+export const LocalGameProvider = ({ children, onLeave }: { children: React.ReactNode; onLeave: () => void }) => {
+  const roomRef = useRef<GameRoom | null>(null);
+  const [gameState, setGameState] = useState<GameState>(engine.createGameState);
+  const [deviceHolderId, setDeviceHolderId] = useState<string | null>(null);
+  // The players who have seen the words identified by the key; new words start a new reveal
+  const [seenWords, setSeenWords] = useState<{ key: string; playerIds: string[] }>({ key: "", playerIds: [] });
+
+  const seenWordIds = seenWords.key === getWordsKey(gameState) ? seenWords.playerIds : [];
+  const playersToReveal =
+    gameState.phase === "wordReveal"
+      ? gameState.speakingOrder
+        .map(id => gameState.players.find(p => p.id === id))
+        .filter((p): p is Player => p !== undefined && !p.isEliminated && !seenWordIds.includes(p.id))
+      : [];
+  const isRevealing = playersToReveal.length > 0;
+
+  // Apply an engine action to the local room, reporting rejected actions like the server does
+  const applyAction = (createAction: (room: GameRoom) => (state: GameState) => GameState) => {
+    const room = roomRef.current;
+    if (!room) return;
+
+    try {
+      room.applyAction(createAction(room));
+    } catch (error) {
+      reportEngineError(error);
+    }
+    setGameState(room.getGameState());
+  };
+
+  // Run the countdown locally, but hold it while the device is passed around to reveal the words
+  const { timer } = gameState;
+  useEffect(() => {
+    if (!timer || isRevealing) return;
+
+    const timeout = setTimeout(
+      () => applyAction(() => state => engine.expireTimer(state, Date.now())),
+      Math.max(timer.endsAt - Date.now(), 0)
+    );
+    return () => clearTimeout(timeout);
+  }, [timer, isRevealing]);
+
+  const addPlayer = (name: string) => {
+    const playerId = createId("local");
+    if (!roomRef.current) {
+      // The first player creates the room, which rejects an invalid name like adding a player does
+      try {
+        roomRef.current = new GameRoom("local", playerId, name, i18n.language);
+      } catch (error) {
+        reportEngineError(error);
+        return;
+      }
+      setGameState(roomRef.current.getGameState());
+      return;
+    }
+    applyAction(() => state => engine.addPlayer(state, playerId, name));
+  };
+
+  const removePlayer = (playerId: string) => applyAction(() => state => engine.removePlayer(state, playerId));
+
+  const markWordSeen = (playerId: string) => {
+    const key = getWordsKey(gameState);
+    setSeenWords({ key, playerIds: [...seenWordIds, playerId] });
+    setDeviceHolderId(null);
+
+    // The first speaker's time starts once everyone knows their word
+    if (playersToReveal.every(p => p.id === playerId)) {
+      applyAction(() => state => ({ ...state, timer: undefined }));
+    }
+  };
+
+  const leaveLocalGame = () => {
+    roomRef.current = null;
+    onLeave();
+  };
+
+  // The player at the device: the current speaker during the discussion,
+  // otherwise the player it was handed to for revealing their word or voting
+  const getPlayerAtDevice = () => {
+    if (gameState.phase === "wordReveal" && !isRevealing) return engine.getCurrentSpeakerId(gameState) ?? null;
+    return gameState.phase === "voting" || isRevealing ? deviceHolderId : null;
+  };
+
+  const startGame = () => applyAction(room => state => engine.startGame(state, room.getDrawableWordPairs()));
+
+  const startVoting = () => applyAction(() => engine.startVoting);
+
+  const submitVote = (voterId: string, targetId: string) =>
+    applyAction(() => state => engine.submitVote(state, voterId, targetId));
+
+  const submitMrWhiteGuess = (guess: string) =>
+    applyAction(() => state => engine.submitMrWhiteGuess(state, state.lastEliminatedId ?? "", guess));
+
+  const submitDescription = (speakerId: string, description: string) =>
+    applyAction(() => state => engine.submitDescription(state, speakerId, description));
+
+  const finishSpeaking = () =>
+    applyAction(() => state => engine.finishSpeaking(state, engine.getCurrentSpeakerId(state) ?? ""));
+
+  const continueGame = () => applyAction(() => engine.continueGame);
+
+  const resetGame = () => applyAction(() => engine.resetGame);
+
+  // The table judges close guesses together, so the decision is made in the name of the picked reviewer
+  const reviewMrWhiteGuess = (accepted: boolean) =>
+    applyAction(() => state => engine.reviewMrWhiteGuess(state, state.mrWhiteGuessReviewerId ?? "", accepted));
+
+  const updateRoleDistribution = (distribution: RoleDistribution) =>
+    applyAction(() => state => engine.updateRoleDistribution(state, distribution));
+
+  const updateSettings = (settings: RoomSettings) =>
+    applyAction(room => state => engine.updateSettings(state, settings, room.getWordPacks()));
+
+  const saveWordPack = (pack: WordPack) => applyAction(() => state => engine.saveWordPack(state, pack, createId("custom")));
+
+  const deleteWordPack = (packId: string) => applyAction(() => state => engine.deleteWordPack(state, packId));
+
+  const rerollWords = () => applyAction(room => state => engine.rerollWords(state, room.getDrawableWordPairs()));
+
+  return (
+    <GameContext.Provider
+      value={{
+        gameState,
+        roomId: null,
+        playerId: getPlayerAtDevice(),
+        isHost: true,
+        isLocal: true,
+        isSpectator: false,
+        startGame,
+        startVoting,
+        submitVote,
+        submitMrWhiteGuess,
+        submitDescription,
+        finishSpeaking,
+        continueGame,
+        resetGame,
+        reviewMrWhiteGuess,
+        updateRoleDistribution,
+        updateSettings,
+        saveWordPack,
+        deleteWordPack,
+        rerollWords,
+      }}
+    >
+      <LocalGameContext.Provider
+        value={{
+          playersToReveal,
+          addPlayer,
+          removePlayer,
+          handDeviceTo: setDeviceHolderId,
+          markWordSeen,
+          leaveLocalGame,
+        }}
+      >
+        {children}
+      </LocalGameContext.Provider>
+    </GameContext.Provider>
+  );
+};
+
+// Only available in a local game, so components can check whether they run on a shared device
+export const useLocalGame = () => useContext(LocalGameContext);
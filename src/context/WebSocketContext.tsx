@@ -1,39 +1,86 @@
 import React, { createContext, useContext, useEffect, useState } from "react";
 import { io, Socket } from "socket.io-client";
-import { useGame } from "./GameContext";
-import { GameState, Player } from "../types/game";
+import { ClientToServerEvents, Player, PlayerSession, ServerToClientEvents } from "../types/game";
 import { toast } from "sonner";
 import { useSound } from "./SoundContext";
+import { useTranslation } from "react-i18next";
 
 // Use relative URL for WebSocket connection (same domain)
 const WEBSOCKET_URL = window.location.origin;
 
+// The session survives page reloads so the player can take their seat back
+const SESSION_STORAGE_KEY = "undercover-session";
+
+const loadSession = (): PlayerSession | null => {
+  try {
+    return JSON.parse(localStorage.getItem(SESSION_STORAGE_KEY) || "null");
+  } catch {
+    return null;
+  }
+};
+
+const saveSession = (session: PlayerSession | null) => {
+  if (session) {
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+  }
+};
+
+// Identifies this browser across sessions, so a ban by the host outlasts the kick.
+// Unlike the session it is never cleared.
+const CLIENT_ID_STORAGE_KEY = "undercover-client-id";
+
+const getClientId = () => {
+  let clientId = localStorage.getItem(CLIENT_ID_STORAGE_KEY);
+  if (!clientId) {
+    clientId = crypto.randomUUID();
+    localStorage.setItem(CLIENT_ID_STORAGE_KEY, clientId);
+  }
+  return clientId;
+};
+
+export type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
 interface WebSocketContextType {
-  socket: Socket | null;
+  socket: GameSocket | null;
   connected: boolean;
   roomId: string | null;
+  playerId: string | null;
   isHost: boolean;
   hostGame: (username: string) => void;
-  joinGame: (roomId: string, username: string) => void;
-  sendGameState: (state: GameState) => void;
-  sendToHost: (eventName: string, ...args: any[]) => void;
+  joinGame: (roomId: string, username: string, password?: string, asSpectator?: boolean) => void;
   leaveGame: () => void;
+  // Host only: an empty password lets everyone with the room ID join again
+  setRoomPassword: (password: string) => void;
+  // Host only: moderation of the room
+  kickPlayer: (playerId: string) => void;
+  banPlayer: (playerId: string) => void;
+  lockRoom: (locked: boolean) => void;
 }
 
 const WebSocketContext = createContext<WebSocketContextType | undefined>(undefined);
 
 export const WebSocketProvider = ({ children }: { children: React.ReactNode }) => {
   const { playSound } = useSound();
-  const [socket, setSocket] = useState<Socket | null>(null);
+  const { i18n } = useTranslation();
+  const [socket, setSocket] = useState<GameSocket | null>(null);
   const [connected, setConnected] = useState(false);
   const [roomId, setRoomId] = useState<string | null>(null);
+  const [playerId, setPlayerId] = useState<string | null>(null);
   const [isHost, setIsHost] = useState(false);
-  const { gameState, setGameState, addPlayer, removePlayer, submitMrWhiteGuess, submitVote, submitDescription } = useGame();
+
+  const applySession = (session: PlayerSession | null) => {
+    saveSession(session);
+    setRoomId(session?.roomId ?? null);
+    setPlayerId(session?.playerId ?? null);
+    setIsHost(session?.isHost ?? false);
+  };
 
   // Initialize socket connection
   useEffect(() => {
     console.log("Initializing WebSocket connection to:", WEBSOCKET_URL);
-    const newSocket = io(WEBSOCKET_URL, {
+    const newSocket: GameSocket = io(WEBSOCKET_URL, {
       reconnectionAttempts: 5,
       reconnectionDelay: 1000,
     });
@@ -41,6 +88,20 @@ export const WebSocketProvider = ({ children }: { children: React.ReactNode }) =
     newSocket.on("connect", () => {
       console.log("Connected to WebSocket server with ID:", newSocket.id);
       setConnected(true);
+
+      // Take back our seat after a reload or a lost connection
+      const session = loadSession();
+      if (session) {
+        console.log("Rejoining room:", session.roomId);
+        newSocket.emit("rejoinRoom", session.roomId, session.token, (success, message, newSession) => {
+          if (success) {
+            applySession(newSession);
+          } else {
+            applySession(null);
+            toast.error(message || "Failed to rejoin game");
+          }
+        });
+      }
     });
 
     newSocket.on("disconnect", (reason) => {
@@ -52,29 +113,30 @@ export const WebSocketProvider = ({ children }: { children: React.ReactNode }) =
       console.error("WebSocket connection error:", error);
     });
 
-    newSocket.on("error", (message: string) => {
+    // Errors with a code are shown in the player's language
+    newSocket.on("error", (message, code) => {
       console.error("WebSocket error:", message);
-      toast.error(message);
+      toast.error(code ? i18n.t(`errors.${code}`, { defaultValue: message }) : message);
     });
 
-    // Game state updates
-    newSocket.on("gameState", (state: GameState) => {
-      console.debug("Received game state:", state);
-      setGameState(state);
+    // We were removed from the room, so there is no seat to rejoin
+    const handleRemoved = (reason: string) => {
+      applySession(null);
+      toast.error(reason);
+    };
+    newSocket.on("roomClosed", handleRemoved);
+    newSocket.on("kicked", handleRemoved);
+
+    // Any action in the room keeps it open
+    newSocket.on("roomExpiring", (closesAt) => {
+      const minutes = Math.max(Math.ceil((closesAt - Date.now()) / 60000), 1);
+      toast.warning(`Nobody has played for a while. The room closes in ${minutes} min unless the game goes on.`);
     });
 
     // Player joined event
     newSocket.on("playerJoined", (player: Player) => {
       console.log("Player joined:", player);
       playSound("/sounds/player-joined.mp3");
-      addPlayer(player.name, player.id);
-    });
-
-    // Player left event
-    newSocket.on("playerLeft", (playerId: string) => {
-      console.log("Player left:", playerId);
-      removePlayer(playerId);
-      toast.error(`${gameState.players.find(p => p.id === playerId)?.name || 'A player'} disconnected`);
     });
 
     setSocket(newSocket);
@@ -84,38 +146,25 @@ export const WebSocketProvider = ({ children }: { children: React.ReactNode }) =
     };
   }, []);
 
-  // Set up host-specific event handlers
+  // Host migration: another player takes over when the host drops
   useEffect(() => {
-    if (!socket || !isHost) return;
+    if (!socket) return;
 
-    // Vote submission
-    const handleVote = (voterId: string, targetId: string) => {
-      console.debug("Received vote:", { voterId, targetId });
-      submitVote(voterId, targetId);
-    };
-
-    // Description submission
-    const handleDescription = (playerId: string, description: string) => {
-      console.debug("Received description:", { playerId, description });
-      submitDescription(playerId, description);
-    };
+    const handleHostChanged = (hostId: string) => {
+      console.log("Host changed:", hostId);
+      const nowHost = hostId === playerId;
+      setIsHost(nowHost);
 
-    // Mr. White guess
-    const handleMrWhiteGuess = (guess: string) => {
-      console.debug("Received Mr. White guess:", guess);
-      submitMrWhiteGuess(guess);
+      const session = loadSession();
+      if (session) saveSession({ ...session, isHost: nowHost });
+      if (nowHost) toast.success("You are now the host");
     };
 
-    socket.on("submitVote", handleVote);
-    socket.on("submitDescription", handleDescription);
-    socket.on("submitMrWhiteGuess", handleMrWhiteGuess);
-
+    socket.on("hostChanged", handleHostChanged);
     return () => {
-      socket.off("submitVote", handleVote);
-      socket.off("submitDescription", handleDescription);
-      socket.off("submitMrWhiteGuess", handleMrWhiteGuess);
+      socket.off("hostChanged", handleHostChanged);
     };
-  }, [socket, isHost, submitVote, submitDescription, submitMrWhiteGuess]);
+  }, [socket, playerId]);
 
   // Host a new game
   const hostGame = (username: string) => {
@@ -125,27 +174,23 @@ export const WebSocketProvider = ({ children }: { children: React.ReactNode }) =
     }
 
     console.log("Emitting createRoom event with username:", username);
-    socket.emit("createRoom", username, (newRoomId: string) => {
-      console.log("Received roomId from server:", newRoomId);
-      setRoomId(newRoomId);
-      setIsHost(true);
-      addPlayer(username, socket.id);
-      console.log("Game state after hosting:", gameState);
-      toast.success(`Game hosted! Share this code with players: ${newRoomId}`);
+    socket.emit("createRoom", username, i18n.language, getClientId(), (session: PlayerSession) => {
+      console.log("Received roomId from server:", session.roomId);
+      applySession(session);
+      toast.success(`Game hosted! Share this code with players: ${session.roomId}`);
     });
   };
 
   // Join an existing game
-  const joinGame = (joinRoomId: string, username: string) => {
+  const joinGame = (joinRoomId: string, username: string, password = "", asSpectator = false) => {
     if (!socket || !connected) {
       toast.error("Not connected to server");
       return;
     }
 
-    socket.emit("joinRoom", joinRoomId, username, (success: boolean, message?: string) => {
+    socket.emit("joinRoom", joinRoomId, username, password, asSpectator, getClientId(), (success: boolean, message?: string, session?: PlayerSession) => {
       if (success) {
-        setRoomId(joinRoomId);
-        setIsHost(false);
+        applySession(session);
         toast.success("Connected to game!");
       } else {
         toast.error(message || "Failed to join game");
@@ -153,35 +198,17 @@ export const WebSocketProvider = ({ children }: { children: React.ReactNode }) =
     });
   };
 
-  // Send game state update (host only)
-  const sendGameState = (state: GameState) => {
-    if (!socket || !connected || !isHost) return;
-    console.debug("Sending game state:", state);
-    socket.emit("updateGameState", state);
-  };
-
-  // Send event to host
-  const sendToHost = (eventName: string, ...args: any[]) => {
-    if (!socket || !connected || isHost) return;
-    console.debug(`Sending ${eventName} to host:`, args);
-    socket.emit(eventName, ...args);
-  };
-
   // Leave the current game
   const leaveGame = () => {
     if (!socket || !connected) return;
     socket.emit("leaveRoom");
-    setRoomId(null);
-    setIsHost(false);
+    applySession(null);
   };
 
-  // Update game state when it changes (host only)
-  useEffect(() => {
-    if (isHost && connected && roomId) {
-      console.log("Host sending updated game state:", gameState);
-      sendGameState(gameState);
-    }
-  }, [gameState, isHost, connected, roomId]);
+  const setRoomPassword = (password: string) => socket?.emit("setRoomPassword", password);
+  const kickPlayer = (targetId: string) => socket?.emit("kickPlayer", targetId);
+  const banPlayer = (targetId: string) => socket?.emit("banPlayer", targetId);
+  const lockRoom = (locked: boolean) => socket?.emit("lockRoom", locked);
 
   return (
     <WebSocketContext.Provider
@@ -189,12 +216,15 @@ export const WebSocketProvider = ({ children }: { children: React.ReactNode }) =
         socket,
         connected,
         roomId,
+        playerId,
         isHost,
         hostGame,
         joinGame,
-        sendGameState,
-        sendToHost,
         leaveGame,
+        setRoomPassword,
+        kickPlayer,
+        banPlayer,
+        lockRoom,
       }}
     >
       {children}
@@ -208,4 +238,4 @@ export const useWebSocket = () => {
     throw new Error("useWebSocket must be used within a WebSocketProvider");
   }
   return context;
-};
\ No newline at end of file
+};
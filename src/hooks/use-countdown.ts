@@ -0,0 +1,26 @@
+import * as React from "react"
+import { PhaseTimer } from "@/types/game"
+
+// Milliseconds left on a server-driven timer, updated a few times per second.
+// Counts from the time left when the state arrived, as the device clock may differ from the server's.
+export function useCountdown(timer?: PhaseTimer) {
+  const endsAt = React.useMemo(
+    () => (timer ? Date.now() + (timer.remainingMs ?? timer.endsAt - Date.now()) : 0),
+    [timer]
+  )
+  const getRemaining = React.useCallback(
+    () => (timer ? Math.min(Math.max(endsAt - Date.now(), 0), timer.duration) : 0),
+    [timer, endsAt]
+  )
+  const [remaining, setRemaining] = React.useState(getRemaining)
+
+  React.useEffect(() => {
+    setRemaining(getRemaining())
+    if (!timer) return
+
+    const interval = setInterval(() => setRemaining(getRemaining()), 250)
+    return () => clearInterval(interval)
+  }, [timer, getRemaining])
+
+  return remaining
+}
@@ -1,8 +1,9 @@
-import wordPairs from "./wordPairs";
-
 export default {
   translation: {
     welcome: "Willkommen bei Undercover",
-    wordPairs: wordPairs
+    errors: {
+      descriptionContainsSecretWord: "Deine Beschreibung darf dein Wort nicht enthalten, auch nicht in der Mehrzahl oder anders geschrieben!",
+      rateLimited: "Nicht so schnell! Du sendest zu viele Anfragen.",
+    },
   }
-};
\ No newline at end of file
+};
@@ -1,302 +0,0 @@
-const wordPairs = [
-    ['Hund', 'Katze'],
-    ['Pizza', 'Burger'],
-    ['Strand', 'Berg'],
-    ['Kaffee', 'Tee'],
-    ['Auto', 'Bus'],
-    ['Sonne', 'Mond'],
-    ['Banane', 'Apfel'],
-    ['Parfüm', 'Deo'],
-    ['Adidas', 'Nike'],
-    ['Rucksack', 'Koffer'],
-    ['Whirlpool', 'Sauna'],
-    ['Turnschuhe', 'Sandalen'],
-    ['Sonnenbrille', 'Taucherbrille'],
-    ['Klavier', 'Gitarre'],
-    ['Kreuzfahrt', 'Safari'],
-    ['Sushi', 'Pizza'],
-    ['Hamburger', 'Hotdog'],
-    ['Schokolade', 'Vanille'],
-    ['Bier', 'Wein'],
-    ['Whiskey', 'Wodka'],
-    ['Milch', 'Saft'],
-    ['Brot', 'Butter'],
-    ['Reis', 'Nudeln'],
-    ['Hühnchen', 'Rindfleisch'],
-    ['Apfel', 'Orange'],
-    ['Banane', 'Erdbeere'],
-    ['Karotte', 'Brokkoli'],
-    ['Kartoffel', 'Tomate'],
-    ['Zwiebel', 'Knoblauch'],
-    ['Salz', 'Pfeffer'],
-    ['Zucker', 'Honig'],
-    ['Wasser', 'Limonade'],
-    ['Apple', 'Microsoft'],
-    ['Google', 'Facebook'],
-    ['Amazon', 'Netflix'],
-    ['Pfannkuchen', 'Donut'],
-    ['Eiscreme', 'Kuchen'],
-    ['McDonalds', 'KFC'],
-    ['Auto', 'Fahrrad'],
-    ['Virus', 'Bakterien'],
-    ['Herr der Ringe', 'Der Hobbit'],
-    ['Harry Potter', 'Lord Voldemort'],
-    ['Superman', 'Batman'],
-    ['Spiderman', 'Ironman'],
-    ['Captain America', 'Thor'],
-    ['Pizza', 'Pasta'],
-    ['Fußball', 'Basketball'],
-    ['Musik', 'Tanzen'],
-    ['Hund', 'Wolf'],
-    ['Apfel', 'Birne'],
-    ['Auto', 'LKW'],
-    ['Bleistift', 'Kugelschreiber'],
-    ['Pizza', 'Lasagne'],
-    ['Facebook', 'Instagram'],
-    ['Sonnenbrille', 'Taucherbrille'],
-    ['Laptop', 'Tablet'],
-    ['Arzt', 'Chirurg'],
-    ['Bitcoin', 'Ethereum'],
-    ['Bombe', 'Gewehr'],
-    ['Einstein', 'Newton'],
-    ['Hemd', 'Pullover'],
-    ['Uhr', 'Ring'],
-    ['Fußball', 'Rugby'],
-    ['Flugzeug', 'Hubschrauber'],
-    ['Fluss', 'See'],
-    ['Ozean', 'Fluss'],
-    ['Lehrer', 'Professor'],
-    ['Fahrrad', 'Motorrad'],
-    ['Salz', 'Zucker'],
-    ['Messer', 'Schere'],
-    ['Stuhl', 'Bank'],
-    ['Burg', 'Haus'],
-    ['Zug', 'U-Bahn'],
-    ['Spiegel', 'Fensterscheibe'],
-    ['Maus', 'Ratte'],
-    ['Schaufel', 'Axt'],
-    ['Gurke', 'Zucchini'],
-    ['Erdbeere', 'Himbeere'],
-    ['Banane', 'Kochbanane'],
-    ['Kokosnuss', 'Ananas'],
-    ['Drache', 'Dinosaurier'],
-    ['Geist', 'Zombie'],
-    ['Küchentheke', 'Küchenchef'],
-    ['Pyramide', 'Tempel'],
-    ['Vulkan', 'Berg'],
-    ['Wüste', 'Sand'],
-    ['Wolke', 'Nebel'],
-    ['Schnee', 'Hagel'],
-    ['Detektiv', 'Verbrecher'],
-    ['Dschungel', 'Wald'],
-    ['Uhr', 'Armbanduhr'],
-    ['Brot', 'Toast'],
-    ['Gemälde', 'Skizze'],
-    ['Regenschirm', 'Sonnenschirm'],
-    ['Anzug', 'Krawatte'],
-    ['Socken', 'Strumpfhosen'],
-    ['Gürtel', 'Jeans'],
-    ['Krone', 'Hut'],
-    ['Ballett', 'Hip Hop'],
-    ['Papagei', 'Krähe'],
-    ['Fledermaus', 'Eule'],
-    ['Kerze', 'Laterne'],
-    ['Bibliothek', 'Universität'],
-    ['Museum', 'Galerie'],
-    ['Radio', 'Podcast'],
-    ['Online Nachrichten', 'Zeitung'],
-    ['Kugelschreiber', 'Blatt Papier'],
-    ['Mond', 'Sonne'],
-    ['Tennis', 'Badminton'],
-    ['Skifahren', 'Schnee'],
-    ['Schwimmen', 'Tauchen'],
-    ['Laufen', 'Joggen'],
-    ['Aufzug', 'Rolltreppe'],
-    ['Fähre', 'Kreuzfahrt'],
-    ['Karte', 'GPS'],
-    ['Segelboot', 'Yacht'],
-    ['Meteor', 'Satellit'],
-    ['Planet', 'Stern'],
-    ['Erdbeben', 'Tsunami'],
-    ['Qualle', 'Tintenfisch'],
-    ['Wolf', 'Fuchs'],
-    ['Elvis', 'The Beatles'],
-    ['Leonardo da Vinci', 'Michelangelo'],
-    ['Napoleon', 'Cäsar'],
-    ['Mario', 'Luigi'],
-    ['Sonic', 'Tails'],
-    ['Pac-Man', 'Tetris'],
-    ['Fortnite', 'Minecraft'],
-    ['Call of Duty', 'Battlefield'],
-    ['Game of Thrones', 'Herr der Ringe'],
-    ['Star Wars', 'Star Trek'],
-    ['Harry Potter', 'Percy Jackson'],
-    ['Sherlock Holmes', 'Hercule Poirot'],
-    ['Dracula', 'Frankenstein'],
-    ['James Bond', 'Geheimdienst'],
-    ['Homer Simpson', 'Peter Griffin'],
-    ['SpongeBob', 'Patrick'],
-    ['Godzilla', 'King Kong'],
-    ['Lego', 'Playmobil'],
-    ['UNO', 'Monopoly'],
-    ['Catan', 'Risiko'],
-    ['Blackjack', 'Poker'],
-    ['Bingo', 'Roulette'],
-    ['New York', 'Los Angeles'],
-    ['Paris', 'London'],
-    ['Rom', 'Athen'],
-    ['Sydney', 'Melbourne'],
-    ['Rio de Janeiro', 'Buenos Aires'],
-    ['Mount Everest', 'Nepal'],
-    ['Amazonas', 'Nil'],
-    ['Grand Canyon', 'Niagarafälle'],
-    ['Taj Mahal', 'Chinesische Mauer'],
-    ['Eiffelturm', 'Freiheitsstatue'],
-    ['Big Ben', 'Schiefer Turm von Pisa'],
-    ['Olympia', 'WM'],
-    ['NBA', 'NFL'],
-    ['Golf', 'Cricket'],
-    ['UFC', 'WWE'],
-    ['Twitch', 'Netflix'],
-    ['Twitter', 'Facebook'],
-    ['SpaceX', 'Tesla'],
-    ['Burger King', 'McDonald’s'],
-    ['Sony', 'Samsung'],
-    ['Mercedes', 'BMW'],
-    ['Harvard', 'MIT'],
-    ['Oxford', 'Schule'],
-    ['CIA', 'FBI'],
-    ['Hitler', 'Stalin'],
-    ['Tesla', 'Porsche'],
-    ['iPhone', 'Samsung'],
-    ['PlayStation', 'Xbox'],
-    ['Windows', 'MacOS'],
-    ['YouTube', 'TikTok'],
-    ['Twitch', 'Kick'],
-    ['Spotify', 'Apple Music'],
-    ['Reddit', 'Discord'],
-    ['Instagram', 'Snapchat'],
-    ['ChatGPT', 'Gemini'],
-    ['Uhr', 'Sonnenuhr'],
-    ['Tiger', 'Gepard'],
-    ['Laptop', 'Desktop'],
-    ['Hai', 'Delfin'],
-    ['Pinguin', 'Möwe'],
-    ['Mond', 'Planet'],
-    ['Komet', 'Asteroid'],
-    ['Brücke', 'Tunnel'],
-    ['Bus', 'Straßenbahn'],
-    ['Zug', 'Bus'],
-    ['Boot', 'U-Boot'],
-    ['Notizbuch', 'Tagebuch'],
-    ['Löffel', 'Gabel'],
-    ['Bäckerei', 'Metzgerei'],
-    ['Teller', 'Schüssel'],
-    ['Brunnen', 'Wasserfall'],
-    ['See', 'Teich'],
-    ['Giraffe', 'Zebra'],
-    ['Elefant', 'Nashorn'],
-    ['Skorpion', 'Spinne'],
-    ['Tintenfisch', 'Oktopus'],
-    ['Gold', 'Silber'],
-    ['Platin', 'Gold'],
-    ['Jacke', 'Mantel'],
-    ['Schal', 'Krawatte'],
-    ['Stiefel', 'Turnschuhe'],
-    ['Helm', 'Hut'],
-    ['Halskette', 'Armband'],
-    ['Ring', 'Ohrring'],
-    ['Mikrofon', 'Lautsprecher'],
-    ['Kopfhörer', 'Ohrstöpsel'],
-    ['Fernseher', 'Radio'],
-    ['Projektor', 'Leinwand'],
-    ['Taschenrechner', 'Schreibmaschine'],
-    ['Taschenlampe', 'Laterne'],
-    ['Zelt', 'Hütte'],
-    ['Kompass', 'Karte'],
-    ['Bordkarte', 'Ausweis'],
-    ['Ticket', 'Rechnung'],
-    ['Reisepass', 'Ticket'],
-    ['U-Bahn', 'Taxi'],
-    ['Himmel', 'Jet'],
-    ['Motorrad', 'Roller'],
-    ['Surfbrett', 'Skateboard'],
-    ['Baseball', 'Football'],
-    ['Volleyball', 'Basketball'],
-    ['Tischtennis', 'Badminton'],
-    ['Puzzle', 'Kreuzworträtsel'],
-    ['Kartenspiel', 'Würfel'],
-    ['Bowling', 'Golf'],
-    ['Marathon', 'Sprint'],
-    ['Fechten', 'Bogenschießen'],
-    ['Boxen', 'Karate'],
-    ['Hockey', 'Fußball'],
-    ['Konzert', 'Festival'],
-    ['Netflix', 'Kino'],
-    ['Roman', 'Gedicht'],
-    ['Enzyklopädie', 'Wörterbuch'],
-    ['Apotheker', 'Arzt'],
-    ['Ingenieur', 'Architekt'],
-    ['Feuerwehrmann', 'Polizist'],
-    ['Pilot', 'Astronaut'],
-    ['Richter', 'Strafe'],
-    ['Bäcker', 'Koch'],
-    ['Bauer', 'Fischer'],
-    ['Schmied', 'Zimmermann'],
-    ['Himmel', 'Hölle'],
-    ['Himmel', 'Wolken'],
-    ['Japan', 'China'],
-    ['Deutschland', 'Bier'],
-    ['Film', 'Schauspieler'],
-    ['Leinwand', 'Fernseher'],
-    ['Frankreich', 'Eiffelturm'],
-    ['Deutschland', 'Frankreich'],
-    ['Thor', 'Blitz'],
-    ['Obi Wan', 'Macht'],
-    ['UFO', 'Drohnen'],
-    ['Gott', 'Himmel'],
-    ['Tortilla', 'Taco'],
-    ['Baguette', 'Ciabatta'],
-    ['Hot Dog', 'Bratwurst'],
-    ['Energy Drink', 'Limonade'],
-    ['Kokosmilch', 'Sojamilch'],
-    ['Picasso', 'Van Gogh'],
-    ['Mozart', 'Beethoven'],
-    ['Messi', 'Ronaldo'],
-    ['Bayern München', 'Real Madrid'],
-    ['Ferrari', 'Lamborghini'],
-    ['Coca-Cola', 'Pepsi'],
-    ['London', 'Paris'],
-    ['Los Angeles', 'New York'],
-    ['Big Ben', 'Schiefer Turm von Pisa'],
-    ['Freiheitsstatue', 'Eiffelturm'],
-    ['Maus', 'Tastatur'],
-    ['Fernseher', 'Laptop'],
-    ['Schrank', 'Vitrine'],
-    ['Birke', 'Strauch'],
-    ['Heizung', 'Föhn'],
-    ['Lampe', 'Kerze'],
-    ['Kissen', 'Decke'],
-    ['Mikrofon', 'Kamera'],
-    ['Ofen', 'Mikrowelle'],
-    ['Pfanne', 'Topf'],
-    ['Tablet', 'Smartphone'],
-    ['Treppe', 'Aufzug'],
-    ['Techno', 'Rap'],
-    ['Rock', 'Pop'],
-    ['Tischtennis', 'Badminton'],
-    ['Fenster', 'Tür'],
-    ['Ofen', 'Heizung'],
-    ['Armbanduhr', 'Wecker'],
-    ['Bett', 'Sofa'],
-    ['Buch', 'Zeitung'],
-    ['Wald', 'Park'],
-    ['Kino', 'Bowling'],
-    ['Schwimmbad', 'Strand'],
-    ['Glas', 'Tasse'],
-    ['Job', 'Hobby'],
-    ['Jesus', 'Weihnachtsmann'],
-    ['BH', 'Bikini'],
-];
-
-export default wordPairs;
\ No newline at end of file
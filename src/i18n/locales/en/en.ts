@@ -1,8 +1,9 @@
-import wordPairs from "./wordPairs";
-
 export default {
   translation: {
     welcome: "Welcome to Undercover",
-    wordPairs: wordPairs,
+    errors: {
+      descriptionContainsSecretWord: "Your description can't contain your word, not even in the plural or spelled differently!",
+      rateLimited: "Slow down! You're sending too many requests.",
+    },
   }
-};
\ No newline at end of file
+};
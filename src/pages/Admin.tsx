@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { LogOut, RefreshCw, Shield, Trash2, UserX } from "lucide-react";
+import { toast } from "sonner";
+import { AdminRoomSummary } from "@/types/game";
+
+// The password is kept for the browser tab only
+const PASSWORD_STORAGE_KEY = "undercover-admin-password";
+
+class AdminRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+const adminRequest = async (password: string, path: string, method = "GET") => {
+  const response = await fetch(`/api/admin${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${password}` },
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new AdminRequestError(body.error || "Request failed", response.status);
+  }
+  return response.status === 204 ? null : response.json();
+};
+
+const LoginCard = ({ onLogin }: { onLogin: (password: string) => void }) => {
+  const [password, setPassword] = useState("");
+
+  return (
+    <Card className="p-6 glass-morphism max-w-md mx-auto space-y-4">
+      <div className="flex items-center gap-2 text-white text-lg font-semibold">
+        <Shield className="h-5 w-5" />
+        <span>Admin dashboard</span>
+      </div>
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (password) onLogin(password);
+        }}
+      >
+        <Input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Admin password"
+          className="flex-1"
+        />
+        <Button type="submit" className="bg-primary hover:bg-primary/90">Log in</Button>
+      </form>
+    </Card>
+  );
+};
+
+const RoomCard = ({ room, onClose, onKick }: {
+  room: AdminRoomSummary;
+  onClose: () => void;
+  onKick: (playerId: string) => void;
+}) => (
+  <Card className="p-4 glass-morphism space-y-3">
+    <div className="flex items-center justify-between">
+      <div>
+        <p className="text-white font-mono font-bold">{room.roomId}</p>
+        <p className="text-sm text-white/60">
+          {room.phase}{room.currentRound > 0 && `, round ${room.currentRound}`}
+        </p>
+      </div>
+      <Button variant="destructive" size="sm" onClick={onClose}>
+        <Trash2 className="h-4 w-4 mr-1" />Close
+      </Button>
+    </div>
+    <div className="space-y-1">
+      {room.players.map(player => (
+        <div key={player.id} className="flex items-center justify-between p-2 rounded bg-white/5">
+          <span className={`truncate ${player.isEliminated ? "text-white/50" : "text-white"}`}>
+            {player.name}
+            {player.id === room.hostId && " (host)"}
+            {player.role && <span className="text-sm text-white/50"> {player.role}</span>}
+            {player.isAway && <span className="text-sm text-yellow-400"> away</span>}
+          </span>
+          <Button variant="ghost" size="icon" onClick={() => onKick(player.id)}>
+            <UserX className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      {room.spectators.map(spectator => (
+        <div key={spectator.id} className="flex items-center justify-between p-2 rounded bg-white/5">
+          <span className="truncate text-white/70">
+            {spectator.name}
+            <span className="text-sm text-white/50"> spectator</span>
+            {spectator.isAway && <span className="text-sm text-yellow-400"> away</span>}
+          </span>
+          <Button variant="ghost" size="icon" onClick={() => onKick(spectator.id)}>
+            <UserX className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  </Card>
+);
+
+const Admin = () => {
+  const queryClient = useQueryClient();
+  const [password, setPassword] = useState(() => sessionStorage.getItem(PASSWORD_STORAGE_KEY) || "");
+
+  const login = (newPassword: string) => {
+    sessionStorage.setItem(PASSWORD_STORAGE_KEY, newPassword);
+    setPassword(newPassword);
+  };
+
+  const logout = () => {
+    sessionStorage.removeItem(PASSWORD_STORAGE_KEY);
+    setPassword("");
+  };
+
+  const { data: rooms, error, refetch, isFetching } = useQuery({
+    queryKey: ["adminRooms", password],
+    queryFn: async () => (await adminRequest(password, "/rooms")).rooms as AdminRoomSummary[],
+    enabled: !!password,
+    refetchInterval: 5000,
+    retry: false,
+  });
+
+  // A wrong password sends the admin back to the login
+  const isUnauthorized = error instanceof AdminRequestError && error.status === 401;
+  useEffect(() => {
+    if (!isUnauthorized) return;
+    toast.error("Wrong password");
+    sessionStorage.removeItem(PASSWORD_STORAGE_KEY);
+    setPassword("");
+  }, [isUnauthorized]);
+
+  const runAction = async (path: string, successMessage: string) => {
+    try {
+      await adminRequest(password, path, "DELETE");
+      toast.success(successMessage);
+    } catch (actionError) {
+      toast.error(actionError instanceof Error ? actionError.message : "Request failed");
+    }
+    queryClient.invalidateQueries({ queryKey: ["adminRooms"] });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-accent via-secondary to-accent text-white">
+      <div className="container mx-auto px-4 py-6 max-w-4xl space-y-4">
+        {!password ? (
+          <LoginCard onLogin={login} />
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <h1 className="text-2xl font-bold">Rooms ({rooms?.length ?? 0})</h1>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="icon" onClick={() => refetch()} disabled={isFetching}>
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" onClick={logout}>
+                  <LogOut className="h-4 w-4 mr-2" />Log out
+                </Button>
+              </div>
+            </div>
+
+            {error && !isUnauthorized && (
+              <p className="text-red-400">{error.message}</p>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-2">
+              {rooms?.map(room => (
+                <RoomCard
+                  key={room.roomId}
+                  room={room}
+                  onClose={() => runAction(`/rooms/${room.roomId}`, `Room ${room.roomId} closed`)}
+                  onKick={(playerId) => runAction(`/rooms/${room.roomId}/players/${playerId}`, "Player kicked")}
+                />
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Admin;
@@ -1,7 +1,8 @@
+import { useState } from "react";
 import { GameProvider } from "../context/GameContext";
 import { WebSocketProvider } from "../context/WebSocketContext";
+import { LocalGameProvider } from "../context/LocalGameContext";
 import { useGame } from "../context/GameContext";
-import { useWebSocket } from "../context/WebSocketContext";
 import { GameSetup } from "../components/GameSetup";
 import { GameLobby } from "../components/GameLobby";
 import { WordReveal } from "../components/WordReveal";
@@ -9,19 +10,20 @@ import { MultiplayerSetup } from "../components/MultiplayerSetup";
 import { VotingScreen } from "../components/VotingScreen";
 import { Results } from "../components/Results";
 import { GameEnd } from "../components/GameEnd";
+import { SpectatorList } from "../components/shared/SpectatorList";
 import { Button } from "@/components/ui/button";
 import { Github } from "lucide-react";
 import { SoundProvider } from "@/context/SoundContext";
+import { GamePhase } from "@/types/game";
 
-const GameContent = () => {
-  const { gameState } = useGame();
-  const { roomId } = useWebSocket();
+const GameContent = ({ onPlayLocally }: { onPlayLocally: () => void }) => {
+  const { gameState, roomId, isLocal } = useGame();
 
   console.log("GameContent rendering. RoomId:", roomId, "GameState phase:", gameState.phase, "Round:", gameState.currentRound);
 
-  if (!roomId) {
+  if (!roomId && !isLocal) {
     console.log("No roomId, rendering MultiplayerSetup");
-    return <MultiplayerSetup />;
+    return <MultiplayerSetup onPlayLocally={onPlayLocally} />;
   }
 
   if (gameState.phase === "setup" && gameState.currentRound === 0) {
@@ -35,7 +37,18 @@ const GameContent = () => {
   }
 
   console.log("Rendering based on game phase:", gameState.phase);
-  switch (gameState.phase) {
+  return (
+    <>
+      <GameScreen phase={gameState.phase} />
+      <div className="max-w-md mx-auto px-6">
+        <SpectatorList />
+      </div>
+    </>
+  );
+};
+
+const GameScreen = ({ phase }: { phase: GamePhase }) => {
+  switch (phase) {
     case "wordReveal":
       return <WordReveal />;
     case "voting":
@@ -50,17 +63,28 @@ const GameContent = () => {
 };
 
 const Index = () => {
+  // A local game runs entirely in the browser, without a connection to the server
+  const [isLocalGame, setIsLocalGame] = useState(false);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-accent via-secondary to-accent text-white">
       <div className="container mx-auto px-4 py-3">
         <SoundProvider>
-          <GameProvider>
-            <WebSocketProvider>
+          {isLocalGame ? (
+            <LocalGameProvider onLeave={() => setIsLocalGame(false)}>
               <div className="max-w-4xl mx-auto">
-                <GameContent />
+                <GameContent onPlayLocally={() => setIsLocalGame(true)} />
               </div>
+            </LocalGameProvider>
+          ) : (
+            <WebSocketProvider>
+              <GameProvider>
+                <div className="max-w-4xl mx-auto">
+                  <GameContent onPlayLocally={() => setIsLocalGame(true)} />
+                </div>
+              </GameProvider>
             </WebSocketProvider>
-          </GameProvider>
+          )}
         </SoundProvider>
       </div>
       <div className="hidden md:block">